@@ -25,7 +25,7 @@ import { ConstantProductAMM } from "./constantproductamm_client";
   //
   // Deploy App on chain
   //
-  const {appId, appAddress, txId} = await appClient.create();
+  const {appId, appAddress, txId} = await appClient.create.bare();
   console.log(
     `Created app with ID: ${appId} and address: ${appAddress} in tx ${txId}`
   );
@@ -53,6 +53,12 @@ import { ConstantProductAMM } from "./constantproductamm_client";
 
   const poolToken = bootstrapResult.value;
 
+  // Global state is typed by the schema in the app spec
+  const poolState = await appClient.getGlobalState();
+  console.log(
+    `Pool token ${poolState.pool_token} for assets ${poolState.asset_a} and ${poolState.asset_b}`
+  );
+
   //
   // Opt user into new pool token
   //
@@ -69,67 +75,41 @@ import { ConstantProductAMM } from "./constantproductamm_client";
     .do();
   await algosdk.waitForConfirmation(appClient.client, optInToAsset.txID(), 4);
 
+  // The asset transfers below are built by the client from the amount and
+  // asset, sent to the app address with the params passed
+  const txnParams = { suggestedParams: sp };
+
   //
   // Fund the pool with initial liquidity
   //
   let result = await appClient.mint({
-    a_xfer: algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-      from: acct.addr,
-      to: appAddress,
-      suggestedParams: sp,
-      amount: BigInt(1e8),
-      assetIndex: Number(assetA),
-    }),
-    b_xfer: algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-      from: acct.addr,
-      to: appAddress,
-      suggestedParams: sp,
-      amount: BigInt(1e6),
-      assetIndex: Number(assetB),
-    }),
-  });
+    a_xfer: { amount: BigInt(1e8), assetIndex: assetA },
+    b_xfer: { amount: BigInt(1e6), assetIndex: assetB },
+  }, txnParams);
   console.log(`Received ${result.inners[0]?.txn.amount} pool tokens`);
 
   //
   // Try to swap A for B
   //
   result = await appClient.swap({
-    swap_xfer: algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-      from: acct.addr,
-      to: appAddress,
-      suggestedParams: sp,
-      amount: BigInt(1e3),
-      assetIndex: Number(assetA),
-    }),
-  });
+    swap_xfer: { amount: BigInt(1e3), assetIndex: assetA },
+  }, txnParams);
   console.log(`Received ${result.inners[0]?.txn.amount} B tokens`);
 
   //
   // Try to swap B for A
   //
   result = await appClient.swap({
-    swap_xfer: algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-      from: acct.addr,
-      to: appAddress,
-      suggestedParams: sp,
-      amount: BigInt(1e3),
-      assetIndex: Number(assetB),
-    }),
-  });
+    swap_xfer: { amount: BigInt(1e3), assetIndex: assetB },
+  }, txnParams);
   console.log(`Received ${result.inners[0]?.txn.amount} A tokens`);
 
   //
   // Burn some pool tokens
   //
   result = await appClient.burn({
-    pool_xfer: algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-      from: acct.addr,
-      to: appAddress,
-      suggestedParams: sp,
-      amount: BigInt(10),
-      assetIndex: Number(poolToken),
-    }),
-  });
+    pool_xfer: { amount: BigInt(10), assetIndex: poolToken },
+  }, txnParams);
   console.log(
     `Received ${result.inners[0]?.txn.amount} A tokens and ${result.inners[1]?.txn.amount} B tokens`
   );
@@ -139,6 +119,8 @@ async function createAsset(
   client: bkr.ApplicationClient,
   unitName: string
 ): Promise<bigint> {
+  if (client.signer === undefined) throw new Error("no signer defined");
+
   const create = algosdk.makeAssetCreateTxnWithSuggestedParamsFromObject({
     from: client.sender,
     suggestedParams: await client.getSuggestedParams(),
@@ -13,8 +13,8 @@ import { DemoAVM7 } from "./demoavm7_client";
     sender: acct.addr,
   });
 
-  const [appId, appAddr, txId] = await appClient.create();
-  console.log(`Created app ${appId} with address ${appAddr} in tx ${txId}`);
+  const { appId, appAddress, txId } = await appClient.create.bare();
+  console.log(`Created app ${appId} with address ${appAddress} in tx ${txId}`);
 
   // 
   // Use JSON ref opcodes
@@ -49,11 +49,8 @@ import { DemoAVM7 } from "./demoavm7_client";
   const sig = bytesigner(new Uint8Array(acct.privateKey), message);
 
   // Let the client make us a new ATC that we can pass to the next calls to compose methods
-  const atc = await appClient.compose.ed25519verify_bare({ msg: message, pubkey: acct.addr, sig: sig })
-
-  // Add noop calls to increase our opcode budget since ed25519 is expensive
-  await appClient.compose.noop({note: new Uint8Array(Buffer.from("noncey1"))}, atc);
-  await appClient.compose.noop({note: new Uint8Array(Buffer.from("noncey2"))}, atc);
+  // ed25519 is expensive, `autoBudget` adds app calls to the group to increase our opcode budget
+  const atc = await appClient.compose.ed25519verify_bare({ msg: message, pubkey: acct.addr, sig: sig }, {autoBudget: true})
 
   console.log(atc.buildGroup())
 
@@ -11,7 +11,7 @@ import {HelloBeaker} from "./hellobeaker_client";
     sender: acct.addr,
   });
 
-  const {appId, appAddress, txId} = await appClient.create();
+  const {appId, appAddress, txId} = await appClient.create.bare();
   console.log(`Created app ${appId} with address ${appAddress} in tx ${txId}`);
 
   const result = await appClient.hello({name: "Beaker"});
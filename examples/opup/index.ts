@@ -13,7 +13,7 @@ import { ExpensiveApp } from "./expensiveapp_client";
     sender: acct.addr,
   });
 
-  const {appId, appAddress, txId} = await appClient.create();
+  const {appId, appAddress, txId} = await appClient.create.bare();
   console.log(`Created app ${appId} with address ${appAddress} in tx ${txId}`);
 
   const sp = await appClient.getSuggestedParams();
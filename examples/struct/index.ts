@@ -13,10 +13,10 @@ import { Order, Structer } from "./structer_client";
     sender: acct.addr,
   });
 
-  const {appId, appAddress, txId} = await appClient.create();
+  const {appId, appAddress, txId} = await appClient.create.bare();
   console.log(`Created app ${appId} with address ${appAddress} in tx ${txId}`);
 
-  await appClient.optIn();
+  await appClient.optIn.bare();
 
   const result = await appClient.place_order({
     order_number: BigInt(1),
@@ -30,6 +30,21 @@ import { Order, Structer } from "./structer_client";
   console.log("Result: ", result2.value);
   console.log("Or: ", Order.decodeResult(result2.returnValue));
 
+  // read_item is read only, so it is evaluated with dryrun and never submitted.
+  // That means a client without a signer can call it
+  const reader = new Structer({
+    client: bkr.clients.sandboxAlgod(),
+    sender: acct.addr,
+    appId: appId,
+  });
+  const item = await reader.read_item({ order_number: BigInt(1) });
+  console.log("Read: ", item);
+
+  const simulated = await appClient.simulate.increase_quantity({
+    order_number: BigInt(1),
+  });
+  console.log("Simulated: ", simulated.value, "cost: ", simulated.costs);
+
   const state = await appClient.getAccountState(acct.addr, true);
   for (const k in state) {
     // appease ts
@@ -38,4 +53,11 @@ import { Order, Structer } from "./structer_client";
 
     console.log(Order.decodeBytes(val));
   }
+
+  // Or use the local state typed by the schema in the app spec,
+  // the schema says orders are stored as Order structs
+  const { orders } = await appClient.getLocalState(acct.addr);
+  for (const [key, order] of orders.entries()) {
+    console.log(key, order.item, order.quantity);
+  }
 })();
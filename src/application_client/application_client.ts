@@ -1,43 +1,134 @@
 import algosdk, { ABIReferenceType, AtomicTransactionComposer } from 'algosdk';
 
-import { getStateSchema, Schema } from '../generate';
-import { parseLogicError, LogicError } from './logic_error';
-import { ApplicationState, AccountState, decodeState } from './state';
+import { getStateSchema, Schema } from '../generate/appspec';
+import {
+  parseLogicError,
+  parseInnerLogicError,
+  LogicError,
+  LogicErrorContext,
+  LogicErrorDetails,
+  LogicErrorTrace,
+} from './logic_error';
+import {
+  decodeLogs,
+  decodeMethodArgs,
+  decodeReturnValue,
+  formatValue,
+  transactionReferences,
+} from './method_args';
+import { LogicSigSigner } from './signers';
+import {
+  ExportedGroup,
+  decodeExportedGroup,
+  exportedTransaction,
+  methodCallResult,
+  validateSignedGroup,
+} from './offline';
+import { ABIEvent, DecodedEvent, decodeLogEvents } from './events';
+import {
+  addReference,
+  copyReferences,
+  parseUnavailableResource,
+  referenceKey,
+} from './resources';
+import {
+  EventHistoryOptions,
+  HistoryOptions,
+  LoggedEvent,
+  MethodCall,
+  searchEvents,
+  searchMethodCalls,
+} from './history';
+import {
+  ApplicationState,
+  AccountState,
+  SchemaState,
+  StateValue,
+  StateDecoders,
+  decodeState,
+  decodeSchemaState,
+} from './state';
+import {
+  DeployAction,
+  DeployResult,
+  OnSchemaBreak,
+  OnUpdate,
+  deployNote,
+  findDeployedApp,
+  programsEqual,
+  schemasEqual,
+} from './deploy';
+
+// Describes a payment arg for the client to build, sent from the sender of
+// the client to the app address unless another receiver is given
+export interface PaymentArg {
+  amount: number | bigint;
+  receiver?: string;
+  note?: Uint8Array;
+}
+
+// Describes an asset transfer arg for the client to build, like a PaymentArg
+export interface AssetTransferArg extends PaymentArg {
+  assetIndex: number | bigint;
+}
 
 export type MethodArg =
   | algosdk.ABIArgument
   | algosdk.Transaction
+  | PaymentArg
   | object
   | MethodArg[];
 export type MethodArgs = Record<string, MethodArg>;
 export type ABIReturnType = object | void | algosdk.ABIValue;
-export type TransactionOverrides = Partial<algosdk.TransactionParams>;
+// Options for the client rather than fields of the transaction
+export interface ClientOverrides {
+  // Evaluate the call with dryrun first to set the fee to cover its inner
+  // transactions and add app calls to raise the opcode budget if needed
+  autoBudget?: boolean;
+  // App with an `opup()void` method to call to raise the opcode budget,
+  // rather than creating and deleting an app per call
+  opupAppId?: number;
+  // Evaluate the call with dryrun first to list the accounts, assets, apps
+  // and boxes its programs access in the foreign arrays of the group
+  populateResources?: boolean;
+  // Signers for the transaction args passed as a Transaction, keyed by arg
+  // name, in place of the signer of the client
+  signers?: Record<string, algosdk.TransactionSigner>;
+}
+export type TransactionOverrides = Partial<algosdk.TransactionParams> &
+  ClientOverrides;
+// How a method is called, a NoOp call to the existing app unless set
+export interface MethodCallOptions {
+  onComplete?: algosdk.OnApplicationComplete;
+  // Create the app with the method call
+  create?: boolean;
+}
+
 export type TransactionResult = {
   confirmedRound: number;
   txIDs: string[];
   methodResults: algosdk.ABIResult[];
 };
 
-export function decodeNamedTuple(
-  v: algosdk.ABIValue | undefined,
-  keys: string[],
-): object {
-  if (v === undefined) return {};
-  if (!Array.isArray(v)) throw Error('Expected array');
-  if (v.length != keys.length)
-    throw Error('Different key length than value length');
-
-  return Object.fromEntries(
-    keys.map((key, idx) => {
-      return [key, v[idx]];
-    }),
-  );
-}
-
+// A transaction issued by an app call, along with what it did
 export interface InnerTransaction {
   txn: algosdk.Transaction;
-  createdAsset?: bigint;
-  createdApp?: bigint;
+  createdAsset?: number;
+  createdApp?: number;
+  logs: Uint8Array[];
+  // Transactions issued by this one, if it was an app call
+  inners: InnerTransaction[];
+  // Set if this was a call to one of the methods known to the client
+  method?: algosdk.ABIMethod;
+  returnValue?: algosdk.ABIValue;
+  decodeError?: Error;
+}
+
+// What we know about the contracts called, used to decode the results of
+// inner app calls and the events logged. An ApplicationClient may be passed
+export interface ContractInfo {
+  methods?: algosdk.ABIMethod[] | undefined;
+  events?: ABIEvent[] | undefined;
 }
 
 export class ABIResult<T extends ABIReturnType> {
@@ -50,8 +141,10 @@ export class ABIResult<T extends ABIReturnType> {
 
   value: T | undefined;
   inners: InnerTransaction[];
+  // Events logged by the call and its inner transactions
+  events: DecodedEvent[];
 
-  constructor(result: algosdk.ABIResult, value?: T) {
+  constructor(result: algosdk.ABIResult, value?: T, contract?: ContractInfo) {
     this.txID = result.txID;
     this.rawReturnValue = result.rawReturnValue;
     this.method = result.method;
@@ -59,45 +152,322 @@ export class ABIResult<T extends ABIReturnType> {
     this.txInfo = result.txInfo;
     this.returnValue = result.returnValue;
 
-    this.inners = [];
-    if (result?.txInfo !== undefined && 'inner-txns' in result.txInfo) {
-      // TODO: this only parses 1 level deep
-      const outer = result.txInfo['txn']['txn'] as algosdk.EncodedTransaction;
-
-      // eslint-disable-next-line
-      this.inners = result.txInfo['inner-txns'].map((itxn: any) => {
-        const et = itxn['txn']['txn'] as algosdk.EncodedTransaction;
-        et.gen = outer.gen;
-        et.gh = outer.gh;
-        return {
-          createdAsset: itxn['asset-index'] as bigint,
-          createdApp: itxn['application-index'],
-          txn: algosdk.Transaction.from_obj_for_encoding(
-            itxn['txn']['txn'] as algosdk.EncodedTransaction,
-          ),
-        } as InnerTransaction;
-      });
-    }
+    this.inners =
+      result.txInfo !== undefined
+        ? parseInnerTransactions(result.txInfo, contract?.methods ?? [])
+        : [];
+
+    const events = contract?.events ?? [];
+    const logs = decodeLogs(
+      result.txInfo?.['logs'] as (string | Uint8Array)[] | undefined,
+    );
+    this.events = [
+      ...decodeLogEvents(logs, events),
+      ...innerEvents(this.inners, events),
+    ];
 
     this.value = value;
   }
 }
 
+// Decodes the events logged in the tree of inner transactions, depth first
+function innerEvents(
+  inners: InnerTransaction[],
+  events: ABIEvent[],
+): DecodedEvent[] {
+  if (events.length === 0) return [];
+  return inners.flatMap((itxn) => [
+    ...decodeLogEvents(itxn.logs, events),
+    ...innerEvents(itxn.inners, events),
+  ]);
+}
+
+// Parses the tree of inner transactions out of the pending transaction info
+// of an app call, decoding the return values of calls to any of the methods passed
+export function parseInnerTransactions(
+  txInfo: Record<string, unknown>,
+  methods: algosdk.ABIMethod[],
+): InnerTransaction[] {
+  if (!('inner-txns' in txInfo)) return [];
+
+  // Inner transactions do not carry the genesis fields, take them from the outer
+  const outer = (txInfo['txn'] as Record<string, unknown>)[
+    'txn'
+  ] as algosdk.EncodedTransaction;
+
+  // eslint-disable-next-line
+  return (txInfo['inner-txns'] as any[]).map((itxn: any) => {
+    const et = itxn['txn']['txn'] as algosdk.EncodedTransaction;
+    et.gen = outer.gen;
+    et.gh = outer.gh;
+
+    const inner: InnerTransaction = {
+      txn: algosdk.Transaction.from_obj_for_encoding(et),
+      logs: decodeLogs(itxn['logs']),
+      inners: parseInnerTransactions(itxn, methods),
+    };
+
+    if (itxn['asset-index'] !== undefined)
+      inner.createdAsset = itxn['asset-index'];
+    if (itxn['application-index'] !== undefined)
+      inner.createdApp = itxn['application-index'];
+
+    const method = methodForTxn(inner.txn, methods);
+    if (method !== undefined) {
+      inner.method = method;
+      const { returnValue, decodeError } = decodeReturnValue(
+        method,
+        inner.logs,
+      );
+      if (returnValue !== undefined) inner.returnValue = returnValue;
+      if (decodeError !== undefined) inner.decodeError = decodeError;
+    }
+
+    return inner;
+  });
+}
+
+export type DryrunABIResult = algosdk.ABIResult & {
+  logs: Uint8Array[];
+  costs: number[];
+  trace: string;
+  error?: Error | undefined;
+};
+
+export class SimulateResult<T extends ABIReturnType> extends ABIResult<T> {
+  // Logs emitted by the method call
+  logs: Uint8Array[];
+  // Opcode cost of each transaction in the group
+  costs: number[];
+  // Stack trace of the method call
+  trace: string;
+  // Set if any transaction in the group was rejected
+  error: Error | undefined;
+
+  constructor(result: DryrunABIResult, value?: T, contract?: ContractInfo) {
+    super(result, value, contract);
+    this.logs = result.logs;
+    this.costs = result.costs;
+    this.trace = result.trace;
+    this.error = result.error;
+    // Dryrun has no pending transaction info, the logs come from its trace
+    // and the inner transactions it issued are not reported
+    this.events = decodeLogEvents(result.logs, contract?.events ?? []);
+  }
+}
+
+// Returns the dryrun trace of a transaction, with the stack and scratch space at
+// the line that failed or the last line run. Unset scratch slots are left out
+function failureTrace(
+  txnResult: algosdk.DryrunResult['txns'][number] | undefined,
+): LogicErrorTrace | undefined {
+  const lines = txnResult?.appCallTrace ? txnResult.appCallTrace.trace : [];
+  const line = lines.find((l) => l.error) ?? lines[lines.length - 1];
+  if (txnResult === undefined || line === undefined) return undefined;
+
+  const scratch: string[] = [];
+  for (const [idx, sv] of (line.scratch ? line.scratch : []).entries()) {
+    if (sv.type === 1 && sv.bytes.length > 0)
+      scratch.push(
+        `${idx} = 0x${Buffer.from(sv.bytes, 'base64').toString('hex')}`,
+      );
+    else if (sv.type === 2 && Number(sv.uint) !== 0)
+      scratch.push(`${idx} = ${sv.uint}`);
+  }
+
+  return {
+    trace: txnResult.appTrace(),
+    stack: line.stack.map((sv) => sv.toString()),
+    scratch: scratch,
+  };
+}
+
+// Returns the number of inner transactions issued by an app call. Dryrun only
+// traces the program of the call itself, so the app calls issued by its inner
+// app calls are found from the opcode budget each of them adds to the group
+function innerTransactionCount(
+  txnResult: algosdk.DryrunResult['txns'][number] | undefined,
+  budgetAdded: number | undefined,
+): number {
+  const lines = txnResult?.appCallTrace ? txnResult.appCallTrace.trace : [];
+  const op = (line: typeof lines[number]): string =>
+    txnResult?.disassembly[line.line] ?? '';
+
+  // Each inner transaction is started with itxn_begin or itxn_next
+  const inners = lines.filter((l) => /^itxn_(begin|next)\b/.test(op(l)));
+  // The type of an inner app call is on top of the stack when it is set
+  const innerAppCalls = lines.filter((l) => {
+    if (!/^itxn_field Type(Enum)?\b/.test(op(l))) return false;
+    const sv = l.stack[l.stack.length - 1];
+    if (sv === undefined) return false;
+    return sv.type === 2
+      ? Number(sv.uint) === 6
+      : Buffer.from(sv.bytes, 'base64').toString() === 'appl';
+  });
+
+  // Older nodes do not report the budget added, leaving nested calls uncounted
+  if (budgetAdded === undefined) return inners.length;
+  // The budget of the call itself is part of the budget added
+  const appCalls = Math.round(budgetAdded / APP_CALL_BUDGET) - 1;
+  return inners.length + Math.max(0, appCalls - innerAppCalls.length);
+}
+
+// Returns the transactions of the group in the composer
+function groupTransactions(
+  atc?: AtomicTransactionComposer | algosdk.Transaction[],
+): algosdk.Transaction[] {
+  if (atc === undefined) return [];
+  if (Array.isArray(atc)) return atc;
+  return atc.buildGroup().map(({ txn }) => txn);
+}
+
+// Returns the fields of the transaction from the overrides passed
+function txnOverrides(
+  txParams?: TransactionOverrides,
+): Partial<algosdk.TransactionParams> {
+  if (txParams === undefined) return {};
+  // eslint-disable-next-line
+  const { autoBudget, opupAppId, populateResources, signers, ...fields } =
+    txParams;
+  return fields;
+}
+
+type MethodCallParams = Parameters<
+  AtomicTransactionComposer['addMethodCall']
+>[0];
+
+// A copy of the group with a method call added, padded with opup calls up to
+// the max group size so the call is evaluated with the most budget available
+interface TrialGroup {
+  txns: algosdk.Transaction[];
+  // Index of the method call
+  idx: number;
+  // Number of transactions in the group before padding
+  size: number;
+}
+
+// Copies the transaction args of the call, since building the trial group sets
+// their group id and the composer refuses transactions that already have one
+function copyMethodCall(call: MethodCallParams): MethodCallParams {
+  if (call.methodArgs === undefined) return call;
+  return {
+    ...call,
+    methodArgs: call.methodArgs.map((arg) =>
+      algosdk.isTransactionWithSigner(arg)
+        ? { txn: ungroupedCopy(arg.txn), signer: arg.signer }
+        : arg,
+    ),
+  };
+}
+
+// Returns the transaction last added to the composer, which builds the app call
+// of a method call as it is added
+function lastComposedTransaction(
+  atc: AtomicTransactionComposer,
+): algosdk.Transaction | undefined {
+  // The composer keeps its transactions private
+  const txns: algosdk.TransactionWithSigner[] = atc['transactions'];
+  return txns[txns.length - 1]?.txn;
+}
+
+function ungroupedCopy(txn: algosdk.Transaction): algosdk.Transaction {
+  const copy = algosdk.decodeUnsignedTransaction(
+    algosdk.encodeUnsignedTransaction(txn),
+  );
+  delete copy.group;
+  return copy;
+}
+
+// Opcode budget each app call adds to the pool shared by the group
+const APP_CALL_BUDGET = 700;
+
+// Approval and clear program of the apps created and deleted in the same call
+// to raise the opcode budget, `#pragma version 6; int 1`
+const OPUP_PROGRAM = new Uint8Array([6, 129, 1]);
+
+const OPUP_SELECTOR = new algosdk.ABIMethod({
+  name: 'opup',
+  args: [],
+  returns: { type: 'void' },
+}).getSelector();
+
+// Transaction args passed as a descriptor rather than a transaction
+function isPaymentArg(arg: MethodArg | undefined): arg is PaymentArg {
+  return (
+    typeof arg === 'object' &&
+    !(arg instanceof Uint8Array) &&
+    !(arg instanceof algosdk.Transaction) &&
+    !Array.isArray(arg) &&
+    'amount' in arg
+  );
+}
+
+// Used in place of the signer for clients constructed without one
+const missingSigner: algosdk.TransactionSigner = async () => {
+  throw new Error('no signer defined');
+};
+
+// Finds the first app call in the group to one of the methods passed
+function findMethodCall(
+  txns: algosdk.Transaction[],
+  methods: algosdk.ABIMethod[],
+): [number, algosdk.Transaction, algosdk.ABIMethod] | undefined {
+  for (const [idx, txn] of txns.entries()) {
+    const method = methodForTxn(txn, methods);
+    if (method !== undefined) return [idx, txn, method];
+  }
+  return undefined;
+}
+
+// Returns the method the transaction calls if it is an app call to one of
+// the methods passed
+function methodForTxn(
+  txn: algosdk.Transaction,
+  methods: algosdk.ABIMethod[],
+): algosdk.ABIMethod | undefined {
+  if (txn.type !== algosdk.TransactionType.appl) return undefined;
+
+  const selector = txn.appArgs?.[0];
+  if (selector === undefined) return undefined;
+
+  return methods.find((m) =>
+    Buffer.from(m.getSelector()).equals(Buffer.from(selector)),
+  );
+}
+
 export type CreateResult = {
   appId: number;
   appAddress: string;
   txId: string;
 };
+
+export type DeployOptions = {
+  // Used to find apps previously created by `deploy`, defaults
+  // to the indexer of the client
+  indexer?: algosdk.Indexer;
+  onUpdate?: OnUpdate;
+  onSchemaBreak?: OnSchemaBreak;
+  txParams?: TransactionOverrides;
+};
+
 export class ApplicationClient {
   client: algosdk.Algodv2;
+  // Used to look up the history of the app
+  indexer: algosdk.Indexer | undefined;
+
+  name?: string;
 
   appId: number;
   appAddress: string;
 
-  signer: algosdk.TransactionSigner;
+  // Clients constructed without a signer can still evaluate
+  // read only methods with dryrun
+  signer: algosdk.TransactionSigner | undefined;
   sender: string;
 
   methods?: algosdk.ABIMethod[];
+  // ARC-28 events logged by the app
+  events?: ABIEvent[];
 
   approvalProgram?: string;
   clearProgram?: string;
@@ -111,13 +481,38 @@ export class ApplicationClient {
   appSchema?: Schema;
   acctSchema?: Schema;
 
+  // Maps genesis hash to app id for the networks the app is deployed on
+  networks?: algosdk.ABIContractNetworks;
+
+  // Receivers hinted for transaction args built from a descriptor,
+  // keyed by method name then arg name
+  receivers?: Record<string, Record<string, string>>;
+
+  // Defaults for the client overrides of method calls
+  autoBudget: boolean;
+  opupAppId: number | undefined;
+  populateResources: boolean;
+  // Number of source lines shown on either side of the line a LogicError
+  // was raised at
+  logicErrorLines: number | undefined;
+
   constructor(opts: {
     client: algosdk.Algodv2;
-    signer: algosdk.TransactionSigner;
+    indexer?: algosdk.Indexer;
+    signer?: algosdk.TransactionSigner;
     sender: string;
     appId?: number;
+    autoBudget?: boolean;
+    opupAppId?: number;
+    populateResources?: boolean;
+    logicErrorLines?: number;
   }) {
     this.client = opts.client;
+    this.indexer = opts.indexer;
+    this.autoBudget = opts.autoBudget === true;
+    this.opupAppId = opts.opupAppId;
+    this.populateResources = opts.populateResources === true;
+    this.logicErrorLines = opts.logicErrorLines;
 
     if (opts.appId !== undefined) {
       this.appId = opts.appId;
@@ -131,6 +526,19 @@ export class ApplicationClient {
     this.signer = opts.signer;
   }
 
+  // If no app id was passed, look it up in the networks map by the genesis
+  // hash of the network the algod client is connected to
+  async ensureAppId(): Promise<void> {
+    if (this.appId !== 0 || this.networks === undefined) return;
+
+    const sp = await this.client.getTransactionParams().do();
+    const network = this.networks[sp.genesisHash];
+    if (network === undefined) return;
+
+    this.appId = network.appID;
+    this.appAddress = algosdk.getApplicationAddress(this.appId);
+  }
+
   async compile(program: string): Promise<[Uint8Array, algosdk.SourceMap]> {
     const result = await this.client.compile(program).sourcemap(true).do();
     return [
@@ -139,6 +547,16 @@ export class ApplicationClient {
     ];
   }
 
+  // Compiles the TEAL source to a logic signature signing as its contract
+  // account, or as the account that delegates to it
+  async compileLogicSig(
+    source: string,
+    args?: Uint8Array[],
+  ): Promise<LogicSigSigner> {
+    const [program] = await this.compile(source);
+    return new LogicSigSigner(new algosdk.LogicSigAccount(program, args));
+  }
+
   private async ensurePrograms(): Promise<void> {
     if (this.approvalProgram === undefined || this.clearProgram === undefined)
       throw Error('no approval or clear program defined');
@@ -160,7 +578,11 @@ export class ApplicationClient {
     }
   }
 
-  async create(txParams?: TransactionOverrides): Promise<CreateResult> {
+  async createApplication(
+    txParams?: TransactionOverrides,
+    onComplete: algosdk.OnApplicationComplete = algosdk.OnApplicationComplete
+      .NoOpOC,
+  ): Promise<CreateResult> {
     await this.ensurePrograms();
 
     if (
@@ -178,12 +600,12 @@ export class ApplicationClient {
       txn: algosdk.makeApplicationCreateTxnFromObject({
         from: this.getSender(),
         suggestedParams: sp,
-        onComplete: algosdk.OnApplicationComplete.NoOpOC,
+        onComplete: onComplete,
         approvalProgram: this.approvalProgramBinary,
         clearProgram: this.clearProgramBinary,
         ...this.getGlobalSchema(),
         ...this.getLocalSchema(),
-        ...txParams,
+        ...txnOverrides(txParams),
       }),
       signer: this.signer,
     });
@@ -196,17 +618,110 @@ export class ApplicationClient {
         throw new Error('No transaction id returned from execute');
 
       const txinfo = await this.client.pendingTransactionInformation(txid).do();
-      this.appId = txinfo['application-index'];
-      this.appAddress = algosdk.getApplicationAddress(this.appId);
+      this.setCreatedApp(txinfo['application-index'], sp.genesisHash);
       return { appId: this.appId, appAddress: this.appAddress, txId: txid };
     } catch (e) {
-      throw this.wrapLogicError(e as Error);
+      throw await this.traceLogicError(e as Error, atc);
     }
   }
 
-  async delete(txParams?: TransactionOverrides): Promise<TransactionResult> {
+  // Creates the app if one with the same name was not already created by the sender,
+  // otherwise compares it to the app on chain and updates or replaces it according
+  // to the policies passed
+  async deploy(opts: DeployOptions): Promise<DeployResult> {
+    if (this.name === undefined) throw Error('no app name defined');
+
+    await this.ensurePrograms();
+
+    if (
+      this.approvalProgramBinary === undefined ||
+      this.clearProgramBinary === undefined
+    )
+      throw Error('no approval or clear program binaries defined');
+
+    const indexer = opts.indexer ?? this.indexer;
+    if (indexer === undefined) throw Error('no indexer defined');
+
+    const existing = await findDeployedApp(
+      this.client,
+      indexer,
+      this.getSender(),
+      this.name,
+    );
+
+    // The note is how the app is found again, so it replaces any passed
+    const createTxParams = { ...opts.txParams, note: deployNote(this.name) };
+
+    if (existing === undefined) {
+      const { appId, appAddress, txId } = await this.createApplication(
+        createTxParams,
+      );
+      return { action: DeployAction.Create, appId, appAddress, txId };
+    }
+
+    this.appId = existing.appId;
+    this.appAddress = algosdk.getApplicationAddress(existing.appId);
+
+    const { numGlobalInts, numGlobalByteSlices } = this.getGlobalSchema();
+    const { numLocalInts, numLocalByteSlices } = this.getLocalSchema();
+    const schemaChanged =
+      !schemasEqual(existing.globalSchema, {
+        uints: numGlobalInts,
+        bytes: numGlobalByteSlices,
+      }) ||
+      !schemasEqual(existing.localSchema, {
+        uints: numLocalInts,
+        bytes: numLocalByteSlices,
+      });
+
+    const programsChanged =
+      !programsEqual(existing.approvalProgram, this.approvalProgramBinary) ||
+      !programsEqual(existing.clearProgram, this.clearProgramBinary);
+
+    if (!schemaChanged && !programsChanged)
+      return {
+        action: DeployAction.None,
+        appId: this.appId,
+        appAddress: this.appAddress,
+      };
+
+    let replace: boolean;
+    if (schemaChanged) {
+      const onSchemaBreak = opts.onSchemaBreak ?? OnSchemaBreak.Fail;
+      if (onSchemaBreak === OnSchemaBreak.Fail)
+        throw new Error(`Schema of app ${this.appId} differs from app spec`);
+      replace = true;
+    } else {
+      const onUpdate = opts.onUpdate ?? OnUpdate.Fail;
+      if (onUpdate === OnUpdate.Fail)
+        throw new Error(`Programs of app ${this.appId} differ from app spec`);
+      replace = onUpdate === OnUpdate.ReplaceApp;
+    }
+
+    if (!replace) {
+      const result = await this.updateApplication(opts.txParams);
+      return {
+        action: DeployAction.Update,
+        appId: this.appId,
+        appAddress: this.appAddress,
+        txId: result.txIDs[0],
+      };
+    }
+
+    await this.deleteApplication(opts.txParams);
+    const { appId, appAddress, txId } = await this.createApplication(
+      createTxParams,
+    );
+    return { action: DeployAction.Replace, appId, appAddress, txId };
+  }
+
+  async deleteApplication(
+    txParams?: TransactionOverrides,
+  ): Promise<TransactionResult> {
     if (this.signer === undefined) throw Error('no signer defined');
 
+    await this.ensureAppId();
+
     const sp = await this.getSuggestedParams(txParams);
 
     const atc = new algosdk.AtomicTransactionComposer();
@@ -216,19 +731,21 @@ export class ApplicationClient {
         suggestedParams: sp,
         onComplete: algosdk.OnApplicationComplete.DeleteApplicationOC,
         appIndex: this.appId,
-        ...txParams,
+        ...txnOverrides(txParams),
       }),
       signer: this.signer,
     });
 
     try {
-      return atc.execute(this.client, 4);
+      return await atc.execute(this.client, 4);
     } catch (e) {
-      throw this.wrapLogicError(e as Error);
+      throw await this.traceLogicError(e as Error, atc);
     }
   }
 
-  async update(txParams?: TransactionOverrides): Promise<TransactionResult> {
+  async updateApplication(
+    txParams?: TransactionOverrides,
+  ): Promise<TransactionResult> {
     await this.ensurePrograms();
 
     if (
@@ -239,6 +756,8 @@ export class ApplicationClient {
 
     if (this.signer === undefined) throw Error('no signer defined');
 
+    await this.ensureAppId();
+
     const sp = await this.getSuggestedParams(txParams);
 
     const atc = new algosdk.AtomicTransactionComposer();
@@ -249,7 +768,7 @@ export class ApplicationClient {
         approvalProgram: this.approvalProgramBinary,
         clearProgram: this.clearProgramBinary,
         appIndex: this.appId,
-        ...txParams,
+        ...txnOverrides(txParams),
       }),
       signer: this.signer,
     });
@@ -257,13 +776,17 @@ export class ApplicationClient {
     try {
       return await atc.execute(this.client, 4);
     } catch (e) {
-      throw this.wrapLogicError(e as Error);
+      throw await this.traceLogicError(e as Error, atc);
     }
   }
 
-  async optIn(txParams?: TransactionOverrides): Promise<TransactionResult> {
+  async optInApplication(
+    txParams?: TransactionOverrides,
+  ): Promise<TransactionResult> {
     if (this.signer === undefined) throw Error('no signer defined');
 
+    await this.ensureAppId();
+
     const sp = await this.getSuggestedParams(txParams);
 
     const atc = new algosdk.AtomicTransactionComposer();
@@ -272,7 +795,7 @@ export class ApplicationClient {
         from: this.getSender(),
         suggestedParams: sp,
         appIndex: this.appId,
-        ...txParams,
+        ...txnOverrides(txParams),
       }),
       signer: this.signer,
     });
@@ -280,13 +803,17 @@ export class ApplicationClient {
     try {
       return await atc.execute(this.client, 4);
     } catch (e) {
-      throw this.wrapLogicError(e as Error);
+      throw await this.traceLogicError(e as Error, atc);
     }
   }
 
-  async closeOut(txParams?: TransactionOverrides): Promise<TransactionResult> {
+  async closeOutApplication(
+    txParams?: TransactionOverrides,
+  ): Promise<TransactionResult> {
     if (this.signer === undefined) throw Error('no signer defined');
 
+    await this.ensureAppId();
+
     const sp = await this.getSuggestedParams(txParams);
 
     const atc = new algosdk.AtomicTransactionComposer();
@@ -295,7 +822,7 @@ export class ApplicationClient {
         from: this.getSender(),
         suggestedParams: sp,
         appIndex: this.appId,
-        ...txParams,
+        ...txnOverrides(txParams),
       }),
       signer: this.signer,
     });
@@ -303,7 +830,7 @@ export class ApplicationClient {
     try {
       return await atc.execute(this.client, 4);
     } catch (e) {
-      throw this.wrapLogicError(e as Error);
+      throw await this.traceLogicError(e as Error, atc);
     }
   }
 
@@ -312,6 +839,8 @@ export class ApplicationClient {
   ): Promise<TransactionResult> {
     if (this.signer === undefined) throw Error('no signer defined');
 
+    await this.ensureAppId();
+
     const sp = await this.getSuggestedParams(txParams);
 
     const atc = new algosdk.AtomicTransactionComposer();
@@ -327,19 +856,180 @@ export class ApplicationClient {
     try {
       return await atc.execute(this.client, 4);
     } catch (e) {
-      throw this.wrapLogicError(e as Error);
+      throw await this.traceLogicError(e as Error, atc);
     }
   }
 
   async execute(atc: AtomicTransactionComposer): Promise<algosdk.ABIResult> {
+    let result: algosdk.ABIResult | undefined;
     try {
-      const result = await atc.execute(this.client, 4);
-      return result.methodResults[0]
-        ? result.methodResults[0]
-        : ({} as algosdk.ABIResult);
+      result = (await atc.execute(this.client, 4)).methodResults[0];
+    } catch (e) {
+      throw await this.traceLogicError(e as Error, atc);
+    }
+    if (result === undefined) return {} as algosdk.ABIResult;
+
+    // A method call that created the app sets the app id of the client
+    const created = result.txInfo?.['application-index'];
+    const txn = atc.buildGroup()[0]?.txn;
+    if (typeof created === 'number' && txn !== undefined)
+      this.setCreatedApp(
+        created,
+        Buffer.from(txn.genesisHash).toString('base64'),
+      );
+
+    return result;
+  }
+
+  // Builds the group in the composer to be signed elsewhere, describing
+  // the calls to methods of the app in it
+  exportGroup(atc: AtomicTransactionComposer): ExportedGroup {
+    const txns = atc.buildGroup().map(({ txn }) => txn);
+    return {
+      txns: txns.map((txn) => {
+        const et = exportedTransaction(txn);
+        const method =
+          this.methods !== undefined
+            ? methodForTxn(txn, this.methods)
+            : undefined;
+        if (method === undefined) return et;
+
+        et.method = method.toJSON();
+        et.returns = method.returns.type.toString();
+        try {
+          const args = decodeMethodArgs(
+            method,
+            txn.appArgs ? txn.appArgs : [],
+            transactionReferences(txn),
+          );
+          et.args = Object.fromEntries(
+            Object.entries(args).map(([k, v]) => [k, formatValue(v)]),
+          );
+        } catch (e) {
+          // The args are only there to show the signer
+        }
+        return et;
+      }),
+    };
+  }
+
+  // Submits a group exported with `exportGroup` once signed elsewhere,
+  // returning the results of the method calls in it as `execute` would
+  async executeSigned(
+    group: ExportedGroup,
+    signed: (Uint8Array | string)[],
+  ): Promise<TransactionResult> {
+    const blobs = validateSignedGroup(group, signed);
+    const txns = decodeExportedGroup(group);
+    const txIDs = txns.map((txn) => txn.txID());
+
+    let confirmedRound: number;
+    try {
+      await this.client.sendRawTransaction(blobs).do();
+      const info = await algosdk.waitForConfirmation(
+        this.client,
+        txIDs[0] as string,
+        4,
+      );
+      confirmedRound = info['confirmed-round'];
     } catch (e) {
-      throw this.wrapLogicError(e as Error);
+      throw await this.traceLogicError(e as Error, txns);
+    }
+
+    const methodResults: algosdk.ABIResult[] = [];
+    for (const [idx, et] of group.txns.entries()) {
+      const txID = txIDs[idx];
+      if (et.method === undefined || txID === undefined) continue;
+
+      const txInfo = await this.client.pendingTransactionInformation(txID).do();
+      methodResults.push(
+        methodCallResult(new algosdk.ABIMethod(et.method), txID, txInfo),
+      );
     }
+
+    return { confirmedRound, txIDs, methodResults };
+  }
+
+  // Evaluates the group in the composer with the dryrun endpoint rather than
+  // submitting it, the signatures are left empty unless `sign` is set
+  async dryrun(
+    atc: AtomicTransactionComposer,
+    sign?: boolean,
+  ): Promise<DryrunABIResult> {
+    // Work on a copy so the composer passed in can still be executed
+    const group = atc.clone();
+
+    let txns: algosdk.SignedTransaction[];
+    if (sign) {
+      txns = (await group.gatherSignatures()).map((stxn) =>
+        algosdk.decodeSignedTransaction(stxn),
+      );
+    } else {
+      txns = group.buildGroup().map(({ txn }) => {
+        return { txn: txn };
+      });
+    }
+
+    if (this.methods === undefined) throw new Error('no methods defined');
+    const call = findMethodCall(
+      txns.map((stxn) => stxn.txn),
+      this.methods,
+    );
+    if (call === undefined) throw new Error('no method call found in group');
+    const [idx, txn, method] = call;
+
+    const req = await algosdk.createDryrun({ client: this.client, txns });
+    const drr = new algosdk.DryrunResult(await this.client.dryrun(req).do());
+    if (drr.error) throw new Error(drr.error);
+
+    const txnResult = drr.txns[idx];
+    const logs = (txnResult?.logs ? txnResult.logs : []).map(
+      (l) => new Uint8Array(Buffer.from(l, 'base64')),
+    );
+
+    const result: DryrunABIResult = {
+      txID: txn.txID(),
+      method: method,
+      rawReturnValue: new Uint8Array(),
+      logs: logs,
+      costs: drr.txns.map((t) => (t.cost ? t.cost : 0)),
+      trace: txnResult ? txnResult.appTrace() : '',
+      error: await this.dryrunError(drr, txns),
+    };
+
+    // The return value is only logged if the call passed
+    if (result.error === undefined)
+      return { ...result, ...decodeReturnValue(method, logs) };
+    return result;
+  }
+
+  // Returns an error for the first transaction rejected in the dryrun
+  private async dryrunError(
+    drr: algosdk.DryrunResult,
+    txns: algosdk.SignedTransaction[],
+  ): Promise<Error | undefined> {
+    for (const [idx, txnResult] of drr.txns.entries()) {
+      if (!txnResult.appCallRejected()) continue;
+
+      const trace = txnResult.appCallTrace ? txnResult.appCallTrace.trace : [];
+      const failed = trace.find((line) => line.error);
+      const lastLine = trace[trace.length - 1];
+
+      const txn = txns[idx]?.txn;
+      if (txn === undefined) continue;
+
+      const led: LogicErrorDetails = {
+        txId: txn.txID(),
+        msg: failed ? failed.error : 'rejected',
+        pc: failed ? failed.pc : lastLine ? lastLine.pc : 0,
+      };
+      const inner = parseInnerLogicError(led.msg);
+      if (inner !== undefined) led.inner = inner;
+
+      await this.compileForError(txn);
+      return this.logicError(led, txn, idx, failureTrace(txnResult));
+    }
+    return undefined;
   }
 
   async addMethodCall(
@@ -347,12 +1037,19 @@ export class ApplicationClient {
     args?: MethodArgs,
     txParams?: TransactionOverrides,
     atc?: algosdk.AtomicTransactionComposer,
+    opts?: MethodCallOptions,
   ): Promise<algosdk.AtomicTransactionComposer> {
     if (atc === undefined) {
       atc = new algosdk.AtomicTransactionComposer();
     }
 
-    if (this.signer === undefined) throw new Error('no signer defined');
+    // Defer the missing signer error until the group is signed, since
+    // a group evaluated with dryrun is never signed
+    const signer = this.signer !== undefined ? this.signer : missingSigner;
+
+    const create = opts?.create === true;
+    const onComplete = opts?.onComplete ?? algosdk.OnApplicationComplete.NoOpOC;
+    if (!create) await this.ensureAppId();
 
     const sp = await this.getSuggestedParams(txParams);
 
@@ -368,10 +1065,17 @@ export class ApplicationClient {
 
       let arg = args[expected_arg.name];
 
+      if (
+        algosdk.abiTypeIsTransaction(expected_arg.type) &&
+        isPaymentArg(arg)
+      ) {
+        arg = this.transactionArg(method, expected_arg, arg, sp);
+      }
+
       if (arg instanceof algosdk.Transaction) {
         arg = {
           txn: arg,
-          signer: this.signer,
+          signer: txParams?.signers?.[expected_arg.name] ?? signer,
         } as algosdk.TransactionWithSigner;
       } else if (arg instanceof Uint8Array) {
         // TODO: other types?
@@ -391,35 +1095,391 @@ export class ApplicationClient {
       processedArgs.push(arg as algosdk.ABIArgument);
     }
 
-    atc.addMethodCall({
-      appID: this.appId,
+    const call: MethodCallParams = {
+      appID: create ? 0 : this.appId,
       method: method,
       methodArgs: processedArgs,
       sender: this.getSender(),
       suggestedParams: sp,
-      signer: this.signer,
-      ...txParams,
+      signer: signer,
+      onComplete: onComplete,
+      ...(await this.programParams(create, onComplete)),
+      ...txnOverrides(txParams),
+    };
+
+    const autoBudget = txParams?.autoBudget ?? this.autoBudget;
+    const populate = txParams?.populateResources ?? this.populateResources;
+    if (!autoBudget && !populate) {
+      atc.addMethodCall(call);
+      return atc;
+    }
+
+    const opupAppId = txParams?.opupAppId ?? this.opupAppId;
+    const trial = this.trialGroup(atc, call, opupAppId);
+    // Opup calls listing resources for the method call
+    const shared = populate ? await this.addResources(trial) : 0;
+
+    let inners = 0;
+    let opups = 0;
+    if (autoBudget || shared > 0)
+      ({ inners, opups } = await this.measureCall(trial));
+    opups = Math.max(opups, shared);
+
+    atc.addMethodCall({
+      ...call,
+      // The method call pays for its inner transactions and the opup calls
+      suggestedParams:
+        autoBudget || opups > 0
+          ? await this.getSuggestedParams(
+              { suggestedParams: sp },
+              inners + opups,
+            )
+          : sp,
     });
 
+    // The composer only takes boxes for the foreign arrays of a method call,
+    // so the references found are copied to the app call it built
+    const trialCall = trial.txns[trial.idx];
+    const built = lastComposedTransaction(atc);
+    if (trialCall !== undefined && built !== undefined)
+      copyReferences(trialCall, built);
+
+    for (const txn of trial.txns.slice(trial.size, trial.size + opups))
+      atc.addTransaction({ txn: ungroupedCopy(txn), signer: signer });
+
     return atc;
   }
 
-  wrapLogicError(e: Error): Error {
+  // The programs and schema a method call needs to create or update the app
+  private async programParams(
+    create: boolean,
+    onComplete: algosdk.OnApplicationComplete,
+  ): Promise<Partial<MethodCallParams>> {
+    const update =
+      onComplete === algosdk.OnApplicationComplete.UpdateApplicationOC;
+    if (!create && !update) return {};
+
+    await this.ensurePrograms();
     if (
-      this.approvalProgram === undefined ||
-      this.approvalProgramMap == undefined
+      this.approvalProgramBinary === undefined ||
+      this.clearProgramBinary === undefined
     )
-      return e;
+      throw Error('no approval or clear program binaries defined');
 
-    const led = parseLogicError(e.message);
+    const programs = {
+      approvalProgram: this.approvalProgramBinary,
+      clearProgram: this.clearProgramBinary,
+    };
+    if (!create) return programs;
+    return { ...programs, ...this.getGlobalSchema(), ...this.getLocalSchema() };
+  }
+
+  // Builds the payment or asset transfer for a transaction arg passed as a
+  // descriptor, using the same params as the method call
+  private transactionArg(
+    method: algosdk.ABIMethod,
+    arg: algosdk.ABIMethod['args'][number],
+    desc: PaymentArg | AssetTransferArg,
+    sp: algosdk.SuggestedParams,
+  ): algosdk.Transaction {
+    const assetIndex = 'assetIndex' in desc ? desc.assetIndex : undefined;
+    if (
+      assetIndex === undefined &&
+      arg.type === algosdk.ABITransactionType.axfer
+    )
+      throw new Error(`no assetIndex for asset transfer arg: ${arg.name}`);
+    if (assetIndex !== undefined && arg.type === algosdk.ABITransactionType.pay)
+      throw new Error(`assetIndex passed for payment arg: ${arg.name}`);
+
+    const params = {
+      from: this.getSender(),
+      to:
+        desc.receiver ??
+        this.receivers?.[method.name]?.[arg.name ?? ''] ??
+        this.appAddress,
+      amount: desc.amount,
+      suggestedParams: sp,
+      ...(desc.note !== undefined ? { note: desc.note } : {}),
+    };
+
+    return assetIndex !== undefined
+      ? algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+          ...params,
+          assetIndex: Number(assetIndex),
+        })
+      : algosdk.makePaymentTxnWithSuggestedParamsFromObject(params);
+  }
 
-    if (led.msg !== undefined)
-      return new LogicError(
-        led,
-        Buffer.from(this.approvalProgram, 'base64').toString().split('\n'),
-        this.approvalProgramMap,
+  // Copies the group with the method call added and padded with opup calls
+  private trialGroup(
+    atc: AtomicTransactionComposer,
+    call: MethodCallParams,
+    opupAppId?: number,
+  ): TrialGroup {
+    const trial = atc.clone();
+    trial.addMethodCall(copyMethodCall(call));
+
+    // The transaction args are added ahead of the method call
+    const size = trial.count();
+    const idx = size - 1;
+    for (let i = size; i < AtomicTransactionComposer.MAX_GROUP_SIZE; i++)
+      trial.addTransaction({
+        txn: this.opupTxn(call.suggestedParams, opupAppId),
+        signer: call.signer,
+      });
+
+    return { txns: trial.buildGroup().map(({ txn }) => txn), idx, size };
+  }
+
+  // Evaluates the trial group with dryrun until the method call no longer fails
+  // accessing an unavailable resource. Resources are listed on the method call
+  // while it has room, then on the opup calls padding the group. Returns the
+  // number of opup calls used
+  private async addResources(trial: TrialGroup): Promise<number> {
+    const added = new Set<string>();
+    const call = trial.txns[trial.idx];
+    const padding = trial.txns.slice(trial.size);
+    let used = 0;
+
+    for (;;) {
+      const req = await algosdk.createDryrun({
+        client: this.client,
+        txns: trial.txns.map((txn) => ({ txn: txn })),
+      });
+      const drr = new algosdk.DryrunResult(await this.client.dryrun(req).do());
+      if (drr.error) throw new Error(drr.error);
+
+      // Any other failure is left for the call to fail with a logic error
+      const idx = drr.txns.findIndex((t) => t.appCallRejected());
+      if (idx !== trial.idx || call === undefined) return used;
+
+      const trace = drr.txns[idx]?.appCallTrace?.trace ?? [];
+      const msg = trace.find((line) => line.error)?.error ?? '';
+
+      // Boxes belong to the app that failed, which may be an inner app call
+      let appId = call.appIndex;
+      for (let ild = parseInnerLogicError(msg); ild; ild = ild.inner)
+        if (ild.appId !== undefined) appId = ild.appId;
+
+      const ref = parseUnavailableResource(msg, appId);
+      if (ref === undefined) return used;
+
+      const key = referenceKey(ref);
+      if (added.has(key)) return used;
+      added.add(key);
+
+      if (addReference(call, ref)) continue;
+
+      // Boxes are shared across the group, other resources only from AVM 9
+      if (ref.type !== 'box' && (await this.programVersion(appId, call)) < 9)
+        throw new Error(
+          `no room on the method call for ${key}, which app ${appId} can not access on another app call before AVM 9`,
+        );
+
+      const pos = padding.findIndex((txn) => addReference(txn, ref));
+      if (pos < 0)
+        throw new Error(`no room in the group for a reference to ${key}`);
+      used = Math.max(used, pos + 1);
+    }
+  }
+
+  // Returns the version of the approval program of the app, taken from the
+  // app call if it carries the program, as create and update calls do
+  private async programVersion(
+    appId: number,
+    txn: algosdk.Transaction,
+  ): Promise<number> {
+    let program = txn.appApprovalProgram;
+    if (
+      appId !== txn.appIndex ||
+      program === undefined ||
+      program.length === 0
+    ) {
+      const app = await this.client.getApplicationByID(appId).do();
+      program = Buffer.from(app['params']['approval-program'], 'base64');
+    }
+    // Versions below 128 are encoded in the first byte
+    return program[0] ?? 0;
+  }
+
+  // Evaluates the trial group to find the number of inner transactions the
+  // call issues and the number of opup calls needed to cover the opcode cost
+  // of the group
+  private async measureCall(
+    trial: TrialGroup,
+  ): Promise<{ inners: number; opups: number }> {
+    const { txns, idx, size } = trial;
+    const req = await algosdk.createDryrun({
+      client: this.client,
+      txns: txns.map((txn) => ({ txn: txn })),
+    });
+    const resp = await this.client.dryrun(req).do();
+    const drr = new algosdk.DryrunResult(resp);
+    if (drr.error) throw new Error(drr.error);
+
+    // Older nodes only report the cost of each app call, so assume no
+    // budget was added by inner app calls
+    let consumed = 0;
+    let added = 0;
+    // eslint-disable-next-line
+    for (const [i, t] of (resp['txns'] as any[]).entries()) {
+      if (i >= size) break;
+      consumed += t['budget-consumed'] ?? t['cost'] ?? 0;
+      const isAppCall = txns[i]?.type === algosdk.TransactionType.appl;
+      added += t['budget-added'] ?? (isAppCall ? APP_CALL_BUDGET : 0);
+    }
+
+    const opups = Math.ceil(Math.max(0, consumed - added) / APP_CALL_BUDGET);
+    const room = txns.length - size;
+    if (opups > room)
+      throw new Error(
+        `call needs ${opups} opup calls to cover its opcode cost, the group only has room for ${room}`,
       );
-    else return e;
+
+    const inners = innerTransactionCount(
+      drr.txns[idx],
+      resp['txns'][idx]?.['budget-added'],
+    );
+    return { inners, opups };
+  }
+
+  // Returns an app call that only raises the opcode budget of the group, either a
+  // call to the OpUp app or the creation of an app deleted in the same call
+  private opupTxn(
+    sp: algosdk.SuggestedParams,
+    opupAppId?: number,
+  ): algosdk.Transaction {
+    const params = {
+      from: this.getSender(),
+      // Covered by the fee of the method call
+      suggestedParams: { ...sp, flatFee: true, fee: 0 },
+      // Keep otherwise identical calls from having the same id
+      note: new Uint8Array(Buffer.from(`opup:${Math.random()}`)),
+    };
+
+    if (opupAppId !== undefined)
+      return algosdk.makeApplicationNoOpTxnFromObject({
+        ...params,
+        appIndex: opupAppId,
+        appArgs: [OPUP_SELECTOR],
+      });
+
+    return algosdk.makeApplicationCreateTxnFromObject({
+      ...params,
+      onComplete: algosdk.OnApplicationComplete.DeleteApplicationOC,
+      approvalProgram: OPUP_PROGRAM,
+      clearProgram: OPUP_PROGRAM,
+      numGlobalInts: 0,
+      numGlobalByteSlices: 0,
+      numLocalInts: 0,
+      numLocalByteSlices: 0,
+    });
+  }
+
+  // Converts a logic error returned by algod for the group in the composer to
+  // a LogicError, mapped to the TEAL source if the programs of the app have
+  // been compiled. See traceLogicError to have the error traced with dryrun
+  wrapLogicError(
+    e: Error,
+    atc?: AtomicTransactionComposer | algosdk.Transaction[],
+  ): Error {
+    const led = parseLogicError(e.message);
+    if (led.msg === undefined) return e;
+
+    const txns = groupTransactions(atc);
+    const idx = txns.findIndex((txn) => txn.txID() === led.txId);
+    if (idx < 0) return this.logicError(led);
+    return this.logicError(led, txns[idx], idx);
+  }
+
+  // Like wrapLogicError, compiling the programs of the app if needed and
+  // re-running the group with dryrun to trace the failing transaction
+  async traceLogicError(
+    e: Error,
+    atc?: AtomicTransactionComposer | algosdk.Transaction[],
+  ): Promise<Error> {
+    const led = parseLogicError(e.message);
+    if (led.msg === undefined) return e;
+
+    const txns = groupTransactions(atc);
+    const idx = txns.findIndex((txn) => txn.txID() === led.txId);
+    await this.compileForError(txns[idx]);
+    if (idx < 0) return this.logicError(led);
+
+    let trace: LogicErrorTrace | undefined;
+    try {
+      const req = await algosdk.createDryrun({
+        client: this.client,
+        txns: txns.map((txn) => ({ txn: txn })),
+      });
+      const drr = new algosdk.DryrunResult(await this.client.dryrun(req).do());
+      trace = failureTrace(drr.txns[idx]);
+    } catch (err) {
+      // The dryrun endpoint may not be enabled, the trace is only a nice to have
+    }
+
+    return this.logicError(led, txns[idx], idx, trace);
+  }
+
+  // Compiles the programs of the app so an error raised by the transaction can
+  // point at the failing line, unless it called another app
+  private async compileForError(txn?: algosdk.Transaction): Promise<void> {
+    if (txn !== undefined && txn.appIndex !== this.appId) return;
+    try {
+      await this.ensurePrograms();
+    } catch (e) {
+      // The error is left without its source
+    }
+  }
+
+  // Creates the error for a rejected transaction, mapped to the TEAL source of
+  // the program that was run if it was a call to this app whose programs have
+  // been compiled
+  private logicError(
+    led: LogicErrorDetails,
+    txn?: algosdk.Transaction,
+    txnIndex?: number,
+    trace?: LogicErrorTrace,
+  ): LogicError {
+    const context: LogicErrorContext = {};
+    if (txnIndex !== undefined) context.txnIndex = txnIndex;
+    if (trace !== undefined) context.trace = trace;
+
+    const method =
+      txn !== undefined && this.methods !== undefined
+        ? methodForTxn(txn, this.methods)
+        : undefined;
+    if (txn !== undefined && method !== undefined) {
+      context.method = method;
+      try {
+        context.methodArgs = decodeMethodArgs(
+          method,
+          txn.appArgs ? txn.appArgs : [],
+          transactionReferences(txn),
+        );
+      } catch (e) {
+        // Leave the args out rather than hide the logic error
+      }
+    }
+
+    const lines = this.logicErrorLines;
+    if (txn !== undefined && txn.appIndex !== this.appId)
+      return new LogicError(led, [], undefined, context, lines);
+
+    const clear =
+      txn?.appOnComplete === algosdk.OnApplicationComplete.ClearStateOC;
+    const program = clear ? this.clearProgram : this.approvalProgram;
+    const map = clear ? this.clearProgramMap : this.approvalProgramMap;
+    if (program === undefined || map === undefined)
+      return new LogicError(led, [], undefined, context, lines);
+
+    return new LogicError(
+      led,
+      Buffer.from(program, 'base64').toString().split('\n'),
+      map,
+      context,
+      lines,
+    );
   }
 
   async resolve(
@@ -458,40 +1518,75 @@ export class ApplicationClient {
     }
   }
 
+  // Returns the params passed or the suggested params from algod, with a flat fee
+  // covering the number of other transactions passed if set
   async getSuggestedParams(
     txParams?: TransactionOverrides,
     coverInners?: number,
   ): Promise<algosdk.SuggestedParams> {
     let params: algosdk.SuggestedParams;
     if (txParams !== undefined && txParams.suggestedParams !== undefined) {
-      params = txParams.suggestedParams;
+      // Copy so the fee of the params passed is left alone
+      params = { ...txParams.suggestedParams };
     } else {
       params = await this.client.getTransactionParams().do();
     }
 
     if (coverInners !== undefined) {
       params.flatFee = true;
-      params.fee = 1000 * coverInners;
+      params.fee = algosdk.ALGORAND_MIN_TX_FEE * (1 + coverInners);
     }
 
     return params;
   }
 
   async getApplicationState(raw?: boolean): Promise<ApplicationState> {
-    const appInfo = await this.client.getApplicationByID(this.appId).do();
-    if (!('params' in appInfo) || !('global-state' in appInfo['params']))
-      throw new Error('No global state found');
-    return decodeState(
-      appInfo['params']['global-state'],
-      raw,
-    ) as ApplicationState;
+    const state = await this.getGlobalStateValues();
+    if (state === undefined) throw new Error('No global state found');
+    return decodeState(state, raw, this.appSchema) as ApplicationState;
   }
 
   async getAccountState(
     address?: string,
     raw?: boolean,
   ): Promise<AccountState> {
+    const state = await this.getLocalStateValues(address);
+    if (state === undefined) return {} as AccountState;
+    return decodeState(state, raw, this.acctSchema) as AccountState;
+  }
+
+  // Returns the global state keyed by the field names in the app schema
+  async getSchemaGlobalState(decoders?: StateDecoders): Promise<SchemaState> {
+    if (this.appSchema === undefined) throw new Error('No app schema defined');
+    const state = await this.getGlobalStateValues();
+    return decodeSchemaState(state ? state : [], this.appSchema, decoders);
+  }
+
+  // Returns the local state of the account keyed by the field names in the
+  // account schema
+  async getSchemaLocalState(
+    address?: string,
+    decoders?: StateDecoders,
+  ): Promise<SchemaState> {
+    if (this.acctSchema === undefined)
+      throw new Error('No account schema defined');
+    const state = await this.getLocalStateValues(address);
+    return decodeSchemaState(state ? state : [], this.acctSchema, decoders);
+  }
+
+  private async getGlobalStateValues(): Promise<StateValue[] | undefined> {
+    await this.ensureAppId();
+    const appInfo = await this.client.getApplicationByID(this.appId).do();
+    if (!('params' in appInfo) || !('global-state' in appInfo['params']))
+      return undefined;
+    return appInfo['params']['global-state'];
+  }
+
+  private async getLocalStateValues(
+    address?: string,
+  ): Promise<StateValue[] | undefined> {
     if (address === undefined) address = this.getSender();
+    await this.ensureAppId();
     const acctInfo = await this.client
       .accountApplicationInformation(address, this.appId)
       .do();
@@ -499,11 +1594,41 @@ export class ApplicationClient {
       !('app-local-state' in acctInfo) ||
       !('key-value' in acctInfo['app-local-state'])
     )
-      return {} as AccountState;
-    return decodeState(
-      acctInfo['app-local-state']['key-value'],
-      raw,
-    ) as AccountState;
+      return undefined;
+    return acctInfo['app-local-state']['key-value'];
+  }
+
+  // Returns the calls to methods of the app found with the indexer, with
+  // the args and return values decoded
+  async getCallHistory(opts?: HistoryOptions): Promise<MethodCall[]> {
+    if (this.indexer === undefined) throw new Error('no indexer defined');
+    if (this.methods === undefined) throw new Error('no methods defined');
+    await this.ensureAppId();
+    if (this.appId === 0) throw new Error('no app id defined');
+
+    return searchMethodCalls(
+      this.indexer,
+      this.appId,
+      this.methods,
+      opts,
+      this.events,
+    );
+  }
+
+  // Returns the events logged by the app found with the indexer
+  async getEventHistory(opts?: EventHistoryOptions): Promise<LoggedEvent[]> {
+    if (this.indexer === undefined) throw new Error('no indexer defined');
+    if (this.events === undefined) throw new Error('no events defined');
+    await this.ensureAppId();
+    if (this.appId === 0) throw new Error('no app id defined');
+
+    return searchEvents(this.indexer, this.appId, this.events, opts);
+  }
+
+  private setCreatedApp(appId: number, genesisHash: string): void {
+    this.appId = appId;
+    this.appAddress = algosdk.getApplicationAddress(appId);
+    this.networks = { ...this.networks, [genesisHash]: { appID: appId } };
   }
 
   private getSender(): string {
@@ -0,0 +1,126 @@
+import algosdk from 'algosdk';
+import type { BoxSpec } from '../generate';
+import type { ApplicationClient } from './application_client';
+
+// Min balance the app account needs for each box, plus each byte
+// of its name and value
+const BOX_FLAT_MIN_BALANCE = 2500;
+const BOX_BYTE_MIN_BALANCE = 400;
+
+// Returns the min balance the app account needs to hold `count` boxes
+// with names and values of the sizes passed
+export function boxMinBalance(
+  nameSize: number,
+  valueSize: number,
+  count = 1,
+): number {
+  return (
+    count *
+    (BOX_FLAT_MIN_BALANCE + BOX_BYTE_MIN_BALANCE * (nameSize + valueSize))
+  );
+}
+
+// Returns the size of the box names and values of the map, values of dynamic
+// ABI types are sized by `max_value_size`
+export function boxMapSizes(spec: BoxSpec): {
+  nameSize: number;
+  valueSize: number;
+} {
+  const prefix = Buffer.from(spec.prefix ?? '');
+  const keyType = algosdk.ABIType.from(spec.key_type);
+  if (keyType.isDynamic())
+    throw new Error(`box key type must be static: ${spec.key_type}`);
+
+  const valueType = algosdk.ABIType.from(spec.value_type);
+  let valueSize: number;
+  if (!valueType.isDynamic()) {
+    valueSize = valueType.byteLen();
+  } else if (spec.max_value_size !== undefined) {
+    valueSize = spec.max_value_size;
+  } else {
+    throw new Error(`no max_value_size for box value type: ${spec.value_type}`);
+  }
+
+  return { nameSize: prefix.length + keyType.byteLen(), valueSize };
+}
+
+// A map of boxes of the app, each named by the prefix followed by the
+// ABI encoded key and holding the ABI encoded value
+export class BoxMap<K extends algosdk.ABIValue, V> {
+  client: ApplicationClient;
+  spec: BoxSpec;
+
+  private prefix: Buffer;
+  private keyType: algosdk.ABIType;
+  private valueType: algosdk.ABIType;
+  private decodeValue: ((v: Uint8Array) => V) | undefined;
+
+  // Values holding structs are decoded with the `decodeBytes`
+  // of the struct class passed as `decode`
+  constructor(
+    client: ApplicationClient,
+    spec: BoxSpec,
+    decode?: (v: Uint8Array) => V,
+  ) {
+    this.client = client;
+    this.spec = spec;
+    this.prefix = Buffer.from(spec.prefix ?? '');
+    this.keyType = algosdk.ABIType.from(spec.key_type);
+    this.valueType = algosdk.ABIType.from(spec.value_type);
+    this.decodeValue = decode;
+  }
+
+  boxName(key: K): Uint8Array {
+    return new Uint8Array(
+      Buffer.concat([this.prefix, this.keyType.encode(key)]),
+    );
+  }
+
+  // Returns the reference to pass in `boxes` of the transaction overrides
+  // of calls that access the box
+  async reference(key: K): Promise<algosdk.BoxReference> {
+    await this.client.ensureAppId();
+    return { appIndex: this.client.appId, name: this.boxName(key) };
+  }
+
+  async get(key: K): Promise<V> {
+    await this.client.ensureAppId();
+    const box = await this.client.client
+      .getApplicationBoxByName(this.client.appId, this.boxName(key))
+      .do();
+    return this.decode(box.value);
+  }
+
+  // Returns the keys of the boxes in the map
+  async list(): Promise<K[]> {
+    await this.client.ensureAppId();
+    const resp = await this.client.client
+      .getApplicationBoxes(this.client.appId)
+      .do();
+
+    const keys: K[] = [];
+    for (const box of resp.boxes) {
+      const name = Buffer.from(box.name);
+      if (!name.subarray(0, this.prefix.length).equals(this.prefix)) continue;
+
+      // Boxes of other maps may share the prefix
+      try {
+        keys.push(this.keyType.decode(name.subarray(this.prefix.length)) as K);
+      } catch (e) {
+        continue;
+      }
+    }
+    return keys;
+  }
+
+  // Returns the min balance the app account needs to hold `count` boxes of the map
+  minBalance(count = 1): number {
+    const { nameSize, valueSize } = boxMapSizes(this.spec);
+    return boxMinBalance(nameSize, valueSize, count);
+  }
+
+  private decode(v: Uint8Array): V {
+    if (this.decodeValue !== undefined) return this.decodeValue(v);
+    return this.valueType.decode(v) as unknown as V;
+  }
+}
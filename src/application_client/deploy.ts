@@ -0,0 +1,125 @@
+import type algosdk from 'algosdk';
+import type { StateSchema } from '../generate';
+
+// Prefix written to the note field of app create transactions issued by
+// `deploy` so the app can be found again by name
+const DEPLOY_NOTE_PREFIX = 'beaker-ts:deploy:';
+
+// What to do when the programs on chain differ from the ones we have
+export enum OnUpdate {
+  Fail = 'fail',
+  UpdateApp = 'update',
+  ReplaceApp = 'replace',
+}
+
+// What to do when the state schema on chain differs from the one we have,
+// an update cannot change the schema so the only options are to fail or replace
+export enum OnSchemaBreak {
+  Fail = 'fail',
+  ReplaceApp = 'replace',
+}
+
+export enum DeployAction {
+  None = 'none',
+  Create = 'create',
+  Update = 'update',
+  Replace = 'replace',
+}
+
+export type DeployResult = {
+  action: DeployAction;
+  appId: number;
+  appAddress: string;
+  txId?: string | undefined;
+};
+
+// An app previously created by `deploy`, as found on chain
+export interface DeployedApp {
+  appId: number;
+  approvalProgram: Uint8Array;
+  clearProgram: Uint8Array;
+  globalSchema: StateSchema;
+  localSchema: StateSchema;
+}
+
+export function deployNote(name: string): Uint8Array {
+  return new Uint8Array(Buffer.from(DEPLOY_NOTE_PREFIX + name));
+}
+
+// Finds the most recent app created by `sender` with a deploy note matching `name`
+// that has not since been deleted
+export async function findDeployedApp(
+  client: algosdk.Algodv2,
+  indexer: algosdk.Indexer,
+  sender: string,
+  name: string,
+): Promise<DeployedApp | undefined> {
+  const note = deployNote(name);
+
+  const created = new Set<number>();
+  let nextToken: string | undefined;
+  do {
+    let query = indexer
+      .searchForTransactions()
+      .address(sender)
+      .addressRole('sender')
+      .txType('appl')
+      .notePrefix(note);
+    if (nextToken !== undefined) query = query.nextToken(nextToken);
+
+    const result = await query.do();
+    for (const txn of result['transactions']) {
+      // The note prefix match would also pick up `name` suffixed names
+      const txnNote = Buffer.from(txn['note'], 'base64');
+      if (!txnNote.equals(Buffer.from(note))) continue;
+
+      const appId = txn['created-application-index'];
+      if (appId !== undefined) created.add(appId);
+    }
+
+    nextToken =
+      result['transactions'].length > 0 ? result['next-token'] : undefined;
+  } while (nextToken !== undefined);
+
+  if (created.size === 0) return undefined;
+
+  // Algod only lists apps that still exist
+  const acctInfo = await client.accountInformation(sender).do();
+  // eslint-disable-next-line
+  const apps = (acctInfo['created-apps'] as any[])
+    .filter((app) => created.has(app['id']))
+    .sort((a, b) => b['id'] - a['id']);
+
+  const app = apps[0];
+  if (app === undefined) return undefined;
+
+  const params = app['params'];
+  return {
+    appId: app['id'],
+    approvalProgram: new Uint8Array(
+      Buffer.from(params['approval-program'], 'base64'),
+    ),
+    clearProgram: new Uint8Array(
+      Buffer.from(params['clear-state-program'], 'base64'),
+    ),
+    globalSchema: decodeStateSchema(params['global-state-schema']),
+    localSchema: decodeStateSchema(params['local-state-schema']),
+  };
+}
+
+function decodeStateSchema(
+  s: { 'num-uint'?: number; 'num-byte-slice'?: number } | undefined,
+): StateSchema {
+  return {
+    uints: s?.['num-uint'] ?? 0,
+    bytes: s?.['num-byte-slice'] ?? 0,
+  };
+}
+
+export function programsEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return Buffer.from(a).equals(Buffer.from(b));
+}
+
+export function schemasEqual(a: StateSchema, b: StateSchema): boolean {
+  return a.uints === b.uints && a.bytes === b.bytes;
+}
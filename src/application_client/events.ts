@@ -0,0 +1,106 @@
+import algosdk from 'algosdk';
+import { sha512_256 } from 'js-sha512';
+import type { EventArgSpec, EventSpec } from '../generate';
+import { decodeLogs } from './method_args';
+
+// An ARC-28 event, logged as the selector of its signature followed by
+// its args ABI encoded as a tuple
+export class ABIEvent {
+  name: string;
+  desc: string | undefined;
+  args: EventArgSpec[];
+
+  private codec: algosdk.ABIType;
+  private selector: Uint8Array;
+
+  constructor(spec: EventSpec) {
+    this.name = spec.name;
+    this.desc = spec.desc;
+    this.args = spec.args;
+
+    this.codec = algosdk.ABIType.from(
+      `(${this.args.map((a) => a.type).join(',')})`,
+    );
+    this.selector = new Uint8Array(
+      sha512_256.array(this.signature()).slice(0, 4),
+    );
+  }
+
+  signature(): string {
+    return `${this.name}(${this.args.map((a) => a.type).join(',')})`;
+  }
+
+  getSelector(): Uint8Array {
+    return this.selector;
+  }
+
+  // Decodes the args of the event, keyed by name or by position
+  // for unnamed args
+  decode(data: Uint8Array): Record<string, algosdk.ABIValue> {
+    const vals = this.codec.decode(data) as algosdk.ABIValue[];
+    return Object.fromEntries(
+      this.args.map((a, idx) => [
+        a.name ?? `arg${idx}`,
+        vals[idx] as algosdk.ABIValue,
+      ]),
+    );
+  }
+}
+
+export interface DecodedEvent {
+  name: string;
+  event: ABIEvent;
+  args: Record<string, algosdk.ABIValue>;
+  // The ABI encoded args, without the selector
+  data: Uint8Array;
+}
+
+// Decodes the logs that match the selector of one of the events passed,
+// other logs are skipped
+export function decodeLogEvents(
+  logs: Uint8Array[],
+  events: ABIEvent[],
+): DecodedEvent[] {
+  const decoded: DecodedEvent[] = [];
+  for (const log of logs) {
+    const selector = Buffer.from(log.slice(0, 4));
+    const event = events.find((e) =>
+      selector.equals(Buffer.from(e.getSelector())),
+    );
+    if (event === undefined) continue;
+
+    const data = log.slice(4);
+    try {
+      decoded.push({ name: event.name, event, args: event.decode(data), data });
+    } catch (e) {
+      // A log that happens to share the selector but isn't the event
+      continue;
+    }
+  }
+  return decoded;
+}
+
+// Decodes the events logged by the app in transactions returned from the indexer,
+// including those logged from inner transactions
+export function decodeIndexerEvents(
+  // eslint-disable-next-line
+  txns: Record<string, any>[],
+  appId: number,
+  events: ABIEvent[],
+): DecodedEvent[] {
+  const decoded: DecodedEvent[] = [];
+  for (const txn of txns) {
+    // Calls creating the app carry an application-id of 0
+    const txnAppId =
+      txn['created-application-index'] ??
+      txn['application-transaction']?.['application-id'];
+    if (txnAppId === appId) {
+      const logs = txn['logs'] as (string | Uint8Array)[] | undefined;
+      decoded.push(...decodeLogEvents(decodeLogs(logs), events));
+    }
+
+    if (txn['inner-txns'] !== undefined)
+      decoded.push(...decodeIndexerEvents(txn['inner-txns'], appId, events));
+  }
+  return decoded;
+}
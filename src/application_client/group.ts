@@ -0,0 +1,245 @@
+import algosdk from 'algosdk';
+import type {
+  ABIResult,
+  ABIReturnType,
+  ApplicationClient,
+  AssetTransferArg,
+  PaymentArg,
+  TransactionOverrides,
+} from './application_client';
+import { parseLogicError } from './logic_error';
+
+type ComposeMethod = (
+  args: never,
+  txnParams?: TransactionOverrides,
+  atc?: algosdk.AtomicTransactionComposer,
+) => Promise<algosdk.AtomicTransactionComposer>;
+
+type ResultMethod = (result: algosdk.ABIResult) => ABIResult<ABIReturnType>;
+
+// The parts of a generated client used to add its method calls to a group
+export type GeneratedClient = ApplicationClient & {
+  compose: Record<string, ComposeMethod>;
+  results: Record<string, ResultMethod>;
+};
+
+interface GroupStep {
+  client: ApplicationClient;
+  add: (
+    atc: algosdk.AtomicTransactionComposer,
+    sp: algosdk.SuggestedParams,
+  ) => Promise<void>;
+  // Types the result of the step if it is a method call
+  result?: ResultMethod;
+  // Transactions the step adds, not counting any added to raise the budget
+  // or list resources
+  size: number;
+}
+
+// Builds a group out of method calls to any number of app clients, payments
+// and opt ins. Nothing is composed until the group is built, so the suggested
+// params are only fetched once for the whole group
+export class GroupBuilder<R extends ABIResult<ABIReturnType>[] = []> {
+  private steps: GroupStep[] = [];
+  // Transactions added so far, not counting any added to raise the budget
+  private size = 0;
+
+  // Adds a call to a method of the client, the result of which is added to
+  // the tuple returned by `execute`
+  call<
+    C extends GeneratedClient,
+    M extends keyof C['compose'] & keyof C['results'] & string,
+  >(
+    client: C,
+    method: M,
+    args: Parameters<C['compose'][M]>[0],
+    txParams?: TransactionOverrides,
+  ): GroupBuilder<[...R, ReturnType<C['results'][M]>]> {
+    if (client.methods === undefined) throw new Error('no methods defined');
+    const abiMethod = algosdk.getMethodByName(client.methods, method);
+
+    const compose = client.compose[method];
+    const result = client.results[method];
+    if (compose === undefined || result === undefined)
+      throw new Error(`no compose or result for method ${method}`);
+
+    // Copies the steps to a builder typed with the new result, leaving this
+    // builder as it was
+    const next = new GroupBuilder<[...R, ReturnType<C['results'][M]>]>();
+    next.steps = [...this.steps];
+    next.size = this.size;
+    return next.addStep({
+      client: client,
+      add: async (atc, sp) => {
+        await compose(args, withParams(txParams, sp), atc);
+      },
+      result: result,
+      size:
+        1 +
+        abiMethod.args.filter((arg) => algosdk.abiTypeIsTransaction(arg.type))
+          .length,
+    });
+  }
+
+  // Adds a payment, or an asset transfer if an asset is passed, from the
+  // sender of the client to its app address unless a receiver is passed
+  pay(client: ApplicationClient, payment: PaymentArg | AssetTransferArg): this {
+    return this.addStep({
+      client: client,
+      size: 1,
+      add: async (atc, sp) => {
+        await client.ensureAppId();
+        const params = {
+          from: client.sender,
+          to: payment.receiver ?? client.appAddress,
+          amount: payment.amount,
+          suggestedParams: sp,
+          ...(payment.note !== undefined ? { note: payment.note } : {}),
+        };
+        atc.addTransaction({
+          txn:
+            'assetIndex' in payment
+              ? algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+                  ...params,
+                  assetIndex: Number(payment.assetIndex),
+                })
+              : algosdk.makePaymentTxnWithSuggestedParamsFromObject(params),
+          signer: clientSigner(client),
+        });
+      },
+    });
+  }
+
+  // Opts the sender of the client in to its app
+  optIn(client: ApplicationClient, txParams?: TransactionOverrides): this {
+    return this.addStep({
+      client: client,
+      size: 1,
+      add: async (atc, sp) => {
+        await client.ensureAppId();
+        atc.addTransaction({
+          txn: algosdk.makeApplicationOptInTxnFromObject({
+            from: client.sender,
+            appIndex: client.appId,
+            suggestedParams: txParams?.suggestedParams ?? sp,
+          }),
+          signer: clientSigner(client),
+        });
+      },
+    });
+  }
+
+  // Opts the sender of the client in to the asset
+  assetOptIn(client: ApplicationClient, assetIndex: number | bigint): this {
+    return this.pay(client, {
+      amount: 0,
+      assetIndex: assetIndex,
+      receiver: client.sender,
+    });
+  }
+
+  // Adds a transaction built elsewhere, the client is used to map logic
+  // errors if it is rejected
+  addTransaction(
+    client: ApplicationClient,
+    txn: algosdk.TransactionWithSigner,
+  ): this {
+    return this.addStep({
+      client: client,
+      size: 1,
+      add: async (atc) => {
+        atc.addTransaction(txn);
+      },
+    });
+  }
+
+  // Composes the group without executing it, to be evaluated with dryrun or
+  // exported for signing elsewhere
+  async build(): Promise<algosdk.AtomicTransactionComposer> {
+    const first = this.steps[0];
+    if (first === undefined) throw new Error('no transactions in group');
+
+    const sp = await first.client.getSuggestedParams();
+    const atc = new algosdk.AtomicTransactionComposer();
+    const max = algosdk.AtomicTransactionComposer.MAX_GROUP_SIZE;
+    let rest = this.size;
+    for (const step of this.steps) {
+      await step.add(atc, sp);
+      // Method calls may have added opup calls, leaving too little room for
+      // the steps after them
+      rest -= step.size;
+      if (atc.count() + rest > max)
+        throw new Error(
+          `group would have ${
+            atc.count() + rest
+          } transactions with the opup calls added, max is ${max}`,
+        );
+    }
+    return atc;
+  }
+
+  // Executes the group, returning the typed results of the method calls in
+  // the order they were added
+  async execute(): Promise<R> {
+    const atc = await this.build();
+    const client = (this.steps[0] as GroupStep).client;
+
+    let result: algosdk.ABIResult[];
+    try {
+      result = (await atc.execute(client.client, 4)).methodResults;
+    } catch (e) {
+      throw await this.traceLogicError(e as Error, atc);
+    }
+
+    const calls = this.steps.filter((step) => step.result !== undefined);
+    return calls.map((step, idx) => {
+      const methodResult = result[idx];
+      if (methodResult === undefined)
+        throw new Error(`no result for method call ${idx}`);
+      return (step.result as ResultMethod)(methodResult);
+    }) as R;
+  }
+
+  // Maps a logic error to the client of the app that rejected it, so the
+  // error points at the TEAL source of the right program
+  private async traceLogicError(
+    e: Error,
+    atc: algosdk.AtomicTransactionComposer,
+  ): Promise<Error> {
+    const txns = atc.buildGroup().map(({ txn }) => txn);
+    const led = parseLogicError(e.message);
+    const failed = txns.find((txn) => txn.txID() === led.txId);
+
+    const client =
+      this.steps.find(
+        (step) =>
+          failed?.type === algosdk.TransactionType.appl &&
+          step.client.appId === failed.appIndex,
+      )?.client ?? (this.steps[0] as GroupStep).client;
+    return client.traceLogicError(e, txns);
+  }
+
+  private addStep(step: GroupStep): this {
+    const max = algosdk.AtomicTransactionComposer.MAX_GROUP_SIZE;
+    if (this.size + step.size > max)
+      throw new Error(
+        `group would have ${this.size + step.size} transactions, max is ${max}`,
+      );
+    this.size += step.size;
+    this.steps.push(step);
+    return this;
+  }
+}
+
+// Shares the params fetched for the group, unless the call passes its own
+function withParams(
+  txParams: TransactionOverrides | undefined,
+  sp: algosdk.SuggestedParams,
+): TransactionOverrides {
+  return { suggestedParams: sp, ...txParams };
+}
+
+function clientSigner(client: ApplicationClient): algosdk.TransactionSigner {
+  if (client.signer === undefined) throw new Error('no signer defined');
+  return client.signer;
+}
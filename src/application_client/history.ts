@@ -0,0 +1,219 @@
+import type algosdk from 'algosdk';
+import {
+  ABIEvent,
+  DecodedEvent,
+  decodeIndexerEvents,
+  decodeLogEvents,
+} from './events';
+import { decodeLogs, decodeMethodArgs, decodeReturnValue } from './method_args';
+
+interface RoundRange {
+  minRound?: number;
+  maxRound?: number;
+}
+
+export interface HistoryOptions extends RoundRange {
+  // Only include calls to the method with this name or signature
+  method?: string;
+  sender?: string;
+  // Stop after finding this many calls
+  limit?: number;
+}
+
+export interface EventHistoryOptions extends RoundRange {
+  // Only include events with this name
+  event?: string;
+  // Stop after finding this many events
+  limit?: number;
+}
+
+// A call to one of the methods of the app found with the indexer
+export interface MethodCall {
+  // Id of the top level transaction, which differs from the
+  // call itself if it was issued as an inner transaction
+  txID: string;
+  round: number;
+  sender: string;
+  method: algosdk.ABIMethod;
+  // Args keyed by name, transaction args are not included
+  args: Record<string, algosdk.ABIValue>;
+  returnValue?: algosdk.ABIValue;
+  decodeError?: Error;
+  events: DecodedEvent[];
+}
+
+// An event logged by the app found with the indexer
+export interface LoggedEvent extends DecodedEvent {
+  // Id of the top level transaction
+  txID: string;
+  round: number;
+}
+
+// Pages through the indexer for transactions involving the app, sent by the
+// sender if one is passed, calling `fn` with each top level transaction until
+// it returns false
+async function forEachAppTransaction(
+  indexer: algosdk.Indexer,
+  appId: number,
+  range: RoundRange & { sender?: string },
+  // eslint-disable-next-line
+  fn: (txn: Record<string, any>) => boolean,
+): Promise<void> {
+  let nextToken: string | undefined;
+  do {
+    let query = indexer.searchForTransactions().applicationID(appId);
+    if (range.minRound !== undefined) query = query.minRound(range.minRound);
+    if (range.maxRound !== undefined) query = query.maxRound(range.maxRound);
+    if (range.sender !== undefined)
+      query = query.address(range.sender).addressRole('sender');
+    if (nextToken !== undefined) query = query.nextToken(nextToken);
+
+    const result = await query.do();
+    for (const txn of result['transactions']) {
+      if (!fn(txn)) return;
+    }
+
+    nextToken =
+      result['transactions'].length > 0 ? result['next-token'] : undefined;
+  } while (nextToken !== undefined);
+}
+
+// Pages through the indexer for calls to the app, including inner calls,
+// matching the selector in the first app arg against the methods passed
+export async function searchMethodCalls(
+  indexer: algosdk.Indexer,
+  appId: number,
+  methods: algosdk.ABIMethod[],
+  opts: HistoryOptions = {},
+  events: ABIEvent[] = [],
+): Promise<MethodCall[]> {
+  const calls: MethodCall[] = [];
+
+  await forEachAppTransaction(indexer, appId, opts, (txn) => {
+    for (const call of findCalls(txn, appId, methods, events)) {
+      call.txID = txn['id'];
+      call.round = txn['confirmed-round'];
+
+      // Inner calls are sent by the app that issued them, not the sender
+      // of the top level transaction the indexer matched
+      if (opts.sender !== undefined && call.sender !== opts.sender) continue;
+      if (
+        opts.method !== undefined &&
+        call.method.name !== opts.method &&
+        call.method.getSignature() !== opts.method
+      )
+        continue;
+
+      calls.push(call);
+      if (opts.limit !== undefined && calls.length >= opts.limit) return false;
+    }
+    return true;
+  });
+
+  return calls;
+}
+
+// Pages through the indexer for events logged by the app, including
+// those logged from inner calls
+export async function searchEvents(
+  indexer: algosdk.Indexer,
+  appId: number,
+  events: ABIEvent[],
+  opts: EventHistoryOptions = {},
+): Promise<LoggedEvent[]> {
+  const logged: LoggedEvent[] = [];
+
+  await forEachAppTransaction(indexer, appId, opts, (txn) => {
+    for (const e of decodeIndexerEvents([txn], appId, events)) {
+      if (opts.event !== undefined && e.name !== opts.event) continue;
+
+      logged.push({ ...e, txID: txn['id'], round: txn['confirmed-round'] });
+      if (opts.limit !== undefined && logged.length >= opts.limit) return false;
+    }
+    return true;
+  });
+
+  return logged;
+}
+
+// Finds the calls to the app in the transaction and its inner transactions
+function findCalls(
+  // eslint-disable-next-line
+  txn: Record<string, any>,
+  appId: number,
+  methods: algosdk.ABIMethod[],
+  events: ABIEvent[],
+): MethodCall[] {
+  const calls: MethodCall[] = [];
+
+  const appTxn = txn['application-transaction'];
+  const txnAppId =
+    txn['created-application-index'] ?? appTxn?.['application-id'];
+  if (appTxn !== undefined && txnAppId === appId) {
+    const call = decodeCall(txn, appId, methods);
+    if (call !== undefined) {
+      const logs = decodeLogs(
+        txn['logs'] as (string | Uint8Array)[] | undefined,
+      );
+      decodeReturn(call, logs);
+      call.events = decodeLogEvents(logs, events);
+      calls.push(call);
+    }
+  }
+
+  for (const itxn of txn['inner-txns'] ?? [])
+    calls.push(...findCalls(itxn, appId, methods, events));
+
+  return calls;
+}
+
+// Decodes the method and args of an app call from the indexer
+function decodeCall(
+  // eslint-disable-next-line
+  txn: Record<string, any>,
+  appId: number,
+  methods: algosdk.ABIMethod[],
+): MethodCall | undefined {
+  const appTxn = txn['application-transaction'];
+  const appArgs = ((appTxn['application-args'] ?? []) as string[]).map(
+    (a) => new Uint8Array(Buffer.from(a, 'base64')),
+  );
+
+  const selector = appArgs[0];
+  if (selector === undefined) return undefined;
+
+  const method = methods.find((m) =>
+    Buffer.from(m.getSelector()).equals(Buffer.from(selector)),
+  );
+  if (method === undefined) return undefined;
+
+  const call: MethodCall = {
+    txID: '',
+    round: 0,
+    sender: txn['sender'],
+    method: method,
+    args: {},
+    events: [],
+  };
+
+  try {
+    call.args = decodeMethodArgs(method, appArgs, {
+      appId: appId,
+      sender: txn['sender'],
+      accounts: appTxn['accounts'] ?? [],
+      foreignAssets: appTxn['foreign-assets'] ?? [],
+      foreignApps: appTxn['foreign-apps'] ?? [],
+    });
+  } catch (e) {
+    call.decodeError = e as Error;
+  }
+
+  return call;
+}
+
+// Decodes the return value of the call from the last log
+function decodeReturn(call: MethodCall, logs: Uint8Array[]): void {
+  const { returnValue, decodeError } = decodeReturnValue(call.method, logs);
+  if (returnValue !== undefined) call.returnValue = returnValue;
+  if (decodeError !== undefined) call.decodeError = decodeError;
+}
@@ -1,3 +1,10 @@
 export * from './application_client';
 export * from './logic_error';
 export * from './state';
+export * from './boxes';
+export * from './signers';
+export * from './offline';
+export * from './deploy';
+export * from './events';
+export * from './history';
+export * from './group';
@@ -1,45 +1,128 @@
 import type algosdk from 'algosdk';
+import { formatValue } from './method_args';
 
 const LOGIC_ERROR =
-  /TransactionPool.Remember: transaction ([A-Z0-9]+): logic eval error: (.*). Details: pc=([0-9]+), opcodes=.*/;
+  /TransactionPool.Remember: transaction ([A-Z0-9]+): logic eval error: (.*). Details: (?:app=[0-9]+, )?pc=([0-9]+), opcodes=.*/;
 
-interface LogicErrorDetails {
+// Errors raised in inner app calls are wrapped by the error of the outer call,
+// whose details point at the pc of the `itxn_submit`
+const INNER_ERROR =
+  /^inner tx ([0-9]+) failed: logic eval error: (.*). Details: (?:app=([0-9]+), )?pc=([0-9]+), opcodes=.*$/;
+
+export interface LogicErrorDetails {
   txId: string;
   pc: number;
   msg: string;
+  // Set if the error was raised in an inner app call
+  inner?: InnerLogicErrorDetails;
+}
+
+export interface InnerLogicErrorDetails {
+  // Index of the failing transaction in the inner group
+  index: number;
+  pc: number;
+  msg: string;
+  appId?: number;
+  inner?: InnerLogicErrorDetails;
 }
 
 export function parseLogicError(errMsg: string): LogicErrorDetails {
   const res = LOGIC_ERROR.exec(errMsg);
   if (res === null || res.length <= 3) return {} as LogicErrorDetails;
 
-  return {
+  const led = {
     txId: res[1],
     msg: res[2],
     pc: parseInt(res[3] ? res[3] : '0'),
   } as LogicErrorDetails;
+
+  const inner = parseInnerLogicError(led.msg);
+  if (inner !== undefined) led.inner = inner;
+
+  return led;
+}
+
+export function parseInnerLogicError(
+  msg: string,
+): InnerLogicErrorDetails | undefined {
+  const res = INNER_ERROR.exec(msg);
+  if (res === null) return undefined;
+
+  const ild = {
+    index: parseInt(res[1] ? res[1] : '0'),
+    msg: res[2],
+    pc: parseInt(res[4] ? res[4] : '0'),
+  } as InnerLogicErrorDetails;
+  if (res[3] !== undefined) ild.appId = parseInt(res[3]);
+
+  const inner = parseInnerLogicError(ild.msg);
+  if (inner !== undefined) ild.inner = inner;
+
+  return ild;
+}
+
+// Dryrun trace of the failing transaction
+export interface LogicErrorTrace {
+  trace: string;
+  // Stack and scratch space at the failing pc
+  stack: string[];
+  scratch: string[];
+}
+
+// What was being called when the error was raised
+export interface LogicErrorContext {
+  // Index of the failing transaction in the group
+  txnIndex?: number;
+  method?: algosdk.ABIMethod;
+  methodArgs?: Record<string, algosdk.ABIValue>;
+  trace?: LogicErrorTrace;
 }
 
 export class LogicError extends Error {
   led: LogicErrorDetails;
   program: string[];
-  lines = 5;
+  // Number of source lines shown on either side of the failing line
+  lines: number;
   teal_line = 0;
+
+  txnIndex: number | undefined;
+  method: algosdk.ABIMethod | undefined;
+  methodArgs: Record<string, algosdk.ABIValue> | undefined;
+  trace: LogicErrorTrace | undefined;
+
   override stack?: string;
 
   constructor(
     led: LogicErrorDetails,
     program: string[],
-    map: algosdk.SourceMap,
+    map?: algosdk.SourceMap,
+    context: LogicErrorContext = {},
+    lines = 5,
   ) {
     super();
+    this.name = 'LogicError';
     this.led = led;
     this.program = program;
+    this.lines = lines;
+
+    this.txnIndex = context.txnIndex;
+    this.method = context.method;
+    this.methodArgs = context.methodArgs;
+    this.trace = context.trace;
 
-    const line = map.getLineForPc(led.pc);
+    const line = map?.getLineForPc(led.pc);
     this.teal_line = line === undefined ? 0 : line;
 
-    this.message = `${this.led.msg.slice(0, 20)}... at:${line}`;
+    this.message = this.describe();
+
+    const sections = [`${this.name}: ${this.message}`];
+
+    if (this.method !== undefined) {
+      const args = Object.entries(this.methodArgs ?? {}).map(
+        ([k, v]) => `${k}=${formatValue(v)}`,
+      );
+      sections.push(`method: ${this.method.name}(${args.join(', ')})`);
+    }
 
     if (this.teal_line > 0) {
       const start =
@@ -49,11 +132,42 @@ export class LogicError extends Error {
           ? this.teal_line + this.lines
           : program.length;
 
-      const stack_lines = program.slice(start, stop);
+      const source_lines = program.slice(start, stop);
+      source_lines[this.teal_line - start] += ' <--- Error';
+
+      sections.push(source_lines.join('\n'));
+    }
+
+    if (this.trace !== undefined) {
+      sections.push(`stack: [${this.trace.stack.join(', ')}]`);
+      if (this.trace.scratch.length > 0)
+        sections.push(`scratch: ${this.trace.scratch.join(', ')}`);
+    }
 
-      stack_lines[stack_lines.length / 2] += ' <--- Error';
+    this.stack = sections.join('\n\n');
+  }
 
-      this.stack = stack_lines.join('\n');
+  private describe(): string {
+    let msg = this.led.msg;
+    const inners: string[] = [];
+    for (let inner = this.led.inner; inner !== undefined; inner = inner.inner) {
+      inners.unshift(
+        `inner transaction ${inner.index}` +
+          (inner.appId !== undefined ? ` (app ${inner.appId})` : ''),
+      );
+      msg = inner.msg;
     }
+
+    const parts = [msg];
+    if (inners.length > 0) parts.push(`in ${inners.join(' of ')}`);
+
+    if (this.txnIndex !== undefined)
+      parts.push(`in transaction ${this.txnIndex}`);
+    if (this.method !== undefined) parts.push(`(${this.method.name})`);
+
+    // Source map lines are 0 indexed
+    if (this.teal_line > 0) parts.push(`at line ${this.teal_line + 1}`);
+
+    return parts.join(' ');
   }
 }
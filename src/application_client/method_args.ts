@@ -0,0 +1,166 @@
+import algosdk from 'algosdk';
+
+// With more args than fit in the app args, those past the 14th
+// are encoded as a tuple in the last app arg
+const MAX_APP_ARGS = 16;
+
+// Return values of ABI method calls are logged with this prefix
+const RETURN_PREFIX = Buffer.from('151f7c75', 'hex');
+
+// Logs are base64 encoded in JSON responses and raw in msgpack responses
+export function decodeLogs(
+  logs: (string | Uint8Array)[] | undefined,
+): Uint8Array[] {
+  return (logs ?? []).map((l) =>
+    typeof l === 'string'
+      ? new Uint8Array(Buffer.from(l, 'base64'))
+      : new Uint8Array(l),
+  );
+}
+
+// The return value of a method call, along with any error decoding it
+export interface MethodReturn {
+  rawReturnValue: Uint8Array;
+  returnValue?: algosdk.ABIValue;
+  decodeError?: Error;
+}
+
+// Decodes the return value of a call to the method from the last of the logs
+// it emitted, as the AtomicTransactionComposer does. Void methods return nothing
+export function decodeReturnValue(
+  method: algosdk.ABIMethod,
+  logs: Uint8Array[],
+): MethodReturn {
+  const result: MethodReturn = { rawReturnValue: new Uint8Array() };
+  if (method.returns.type.toString() === 'void') return result;
+
+  const lastLog = logs[logs.length - 1];
+  if (
+    lastLog === undefined ||
+    !RETURN_PREFIX.equals(Buffer.from(lastLog.slice(0, 4)))
+  ) {
+    result.decodeError = new Error('no return value found in logs');
+    return result;
+  }
+
+  result.rawReturnValue = lastLog.slice(4);
+  try {
+    result.returnValue = algosdk.ABIType.from(
+      method.returns.type.toString(),
+    ).decode(result.rawReturnValue);
+  } catch (e) {
+    result.decodeError = e as Error;
+  }
+  return result;
+}
+
+// What an app call refers to, used to resolve the indexes passed for reference args
+export interface AppCallReferences {
+  appId: number;
+  sender: string;
+  accounts: string[];
+  foreignAssets: number[];
+  foreignApps: number[];
+}
+
+export function transactionReferences(
+  txn: algosdk.Transaction,
+): AppCallReferences {
+  return {
+    appId: txn.appIndex,
+    sender: algosdk.encodeAddress(txn.from.publicKey),
+    accounts: (txn.appAccounts ?? []).map((a) =>
+      algosdk.encodeAddress(a.publicKey),
+    ),
+    foreignAssets: txn.appForeignAssets ?? [],
+    foreignApps: txn.appForeignApps ?? [],
+  };
+}
+
+// Decodes the args of a call to the method from its app args, selector included,
+// keyed by name. Transaction args are passed as the preceding transactions in
+// the group so are not included
+export function decodeMethodArgs(
+  method: algosdk.ABIMethod,
+  appArgs: Uint8Array[],
+  refs: AppCallReferences,
+): Record<string, algosdk.ABIValue> {
+  const abiArgs = method.args.filter(
+    (a) => !algosdk.abiTypeIsTransaction(a.type),
+  );
+
+  const argVals = decodeArgs(
+    abiArgs.map((a) => argCodec(a.type)),
+    appArgs.slice(1),
+  );
+
+  const args: Record<string, algosdk.ABIValue> = {};
+  for (const [idx, arg] of abiArgs.entries()) {
+    const val = argVals[idx];
+    if (val === undefined) continue;
+
+    args[arg.name ?? `arg${idx}`] = algosdk.abiTypeIsReference(arg.type)
+      ? resolveReference(refs, arg.type, Number(val))
+      : val;
+  }
+  return args;
+}
+
+// Decodes the app args passed for ABI args of the types passed
+function decodeArgs(
+  types: algosdk.ABIType[],
+  appArgs: Uint8Array[],
+): algosdk.ABIValue[] {
+  if (types.length <= MAX_APP_ARGS - 1)
+    return appArgs.map((a, idx) => (types[idx] as algosdk.ABIType).decode(a));
+
+  const vals = appArgs
+    .slice(0, MAX_APP_ARGS - 2)
+    .map((a, idx) => (types[idx] as algosdk.ABIType).decode(a));
+
+  const last = appArgs[MAX_APP_ARGS - 2];
+  if (last !== undefined) {
+    const codec = new algosdk.ABITupleType(types.slice(MAX_APP_ARGS - 2));
+    vals.push(...(codec.decode(last) as algosdk.ABIValue[]));
+  }
+  return vals;
+}
+
+// Reference args are passed as uint8 indexes into the foreign arrays
+function argCodec(t: algosdk.ABIArgumentType): algosdk.ABIType {
+  return algosdk.abiTypeIsReference(t)
+    ? algosdk.ABIType.from('uint8')
+    : (t as algosdk.ABIType);
+}
+
+// Resolves the index passed for a reference arg to the account address,
+// asset id or app id it refers to
+function resolveReference(
+  refs: AppCallReferences,
+  t: algosdk.ABIArgumentType,
+  idx: number,
+): algosdk.ABIValue {
+  let ref: string | number | undefined;
+  switch (t) {
+    case algosdk.ABIReferenceType.account:
+      ref = idx === 0 ? refs.sender : refs.accounts[idx - 1];
+      break;
+    case algosdk.ABIReferenceType.asset:
+      ref = refs.foreignAssets[idx];
+      break;
+    case algosdk.ABIReferenceType.application:
+      ref = idx === 0 ? refs.appId : refs.foreignApps[idx - 1];
+      break;
+  }
+
+  if (ref === undefined) throw new Error(`no ${t} reference at index ${idx}`);
+  return typeof ref === 'number' ? BigInt(ref) : ref;
+}
+
+// Formats a decoded value for display
+export function formatValue(v: algosdk.ABIValue): string {
+  if (v instanceof Uint8Array) return `0x${Buffer.from(v).toString('hex')}`;
+  if (Array.isArray(v)) return `[${v.map(formatValue).join(', ')}]`;
+  if (typeof v === 'string') return JSON.stringify(v);
+  return v.toString();
+}
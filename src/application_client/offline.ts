@@ -0,0 +1,102 @@
+import algosdk from 'algosdk';
+import { decodeLogs, decodeReturnValue } from './method_args';
+
+// A transaction of a group exported for signing elsewhere, the ARC-1 fields
+// along with what the method call does if it is one
+export interface ExportedTransaction {
+  // Base64 encoded msgpack of the unsigned transaction
+  txn: string;
+  signers?: string[];
+  message?: string;
+
+  method?: algosdk.ABIMethodParams;
+  // Args keyed by name, formatted for display
+  args?: Record<string, string>;
+  returns?: string;
+}
+
+export interface ExportedGroup {
+  txns: ExportedTransaction[];
+}
+
+export function exportedTransaction(
+  txn: algosdk.Transaction,
+): ExportedTransaction {
+  return {
+    txn: Buffer.from(algosdk.encodeUnsignedTransaction(txn)).toString('base64'),
+  };
+}
+
+export function decodeExportedGroup(
+  group: ExportedGroup,
+): algosdk.Transaction[] {
+  return group.txns.map((et) =>
+    algosdk.decodeUnsignedTransaction(Buffer.from(et.txn, 'base64')),
+  );
+}
+
+// Encodes the group the way `goal clerk` writes unsigned transactions,
+// as concatenated signed transactions with no signature
+export function encodeExportedGroup(group: ExportedGroup): Uint8Array {
+  return new Uint8Array(
+    Buffer.concat(
+      decodeExportedGroup(group).map((txn) =>
+        algosdk.encodeObj({ txn: txn.get_obj_for_encoding() }),
+      ),
+    ),
+  );
+}
+
+// Decodes the signed transactions, passed as msgpack or base64 like ARC-1
+// wallets return them, checking they are the transactions of the group in
+// order and that each carries a signature
+export function validateSignedGroup(
+  group: ExportedGroup,
+  signed: (Uint8Array | string)[],
+): Uint8Array[] {
+  const txns = decodeExportedGroup(group);
+  if (signed.length !== txns.length)
+    throw new Error(
+      `expected ${txns.length} signed transactions, got ${signed.length}`,
+    );
+
+  return signed.map((s, idx) => {
+    const blob =
+      typeof s === 'string' ? new Uint8Array(Buffer.from(s, 'base64')) : s;
+    let stxn: algosdk.SignedTransaction;
+    try {
+      stxn = algosdk.decodeSignedTransaction(blob);
+    } catch (e) {
+      throw new Error(`transaction ${idx} is not a signed transaction`);
+    }
+
+    if (stxn.txn.txID() !== txns[idx]?.txID())
+      throw new Error(`signed transaction ${idx} does not match the group`);
+    if (
+      stxn.sig === undefined &&
+      stxn.msig === undefined &&
+      stxn.lsig === undefined
+    )
+      throw new Error(`transaction ${idx} is not signed`);
+
+    return blob;
+  });
+}
+
+// Decodes the result of a method call from the transaction info of the
+// confirmed transaction, as the AtomicTransactionComposer does
+export function methodCallResult(
+  method: algosdk.ABIMethod,
+  txID: string,
+  txInfo: Record<string, unknown>,
+): algosdk.ABIResult {
+  const logs = decodeLogs(
+    txInfo['logs'] as (string | Uint8Array)[] | undefined,
+  );
+  return {
+    txID: txID,
+    method: method,
+    txInfo: txInfo,
+    ...decodeReturnValue(method, logs),
+  };
+}
@@ -0,0 +1,113 @@
+import algosdk from 'algosdk';
+
+// Limits on the references of a single app call, boxes count towards the total
+const MAX_ACCOUNTS = 4;
+const MAX_REFERENCES = 8;
+
+// Raised when a program accesses a resource missing from the foreign arrays,
+// older nodes say `invalid ... reference` rather than `unavailable ...`
+const UNAVAILABLE_RESOURCE =
+  /(?:unavailable|invalid) (Account|Asset|App|Box)(?: reference)? (\S+)/;
+
+// A resource a program needs listed in the foreign arrays of the group
+export type ResourceReference =
+  | { type: 'account'; address: string }
+  | { type: 'asset'; id: number }
+  | { type: 'app'; id: number }
+  | { type: 'box'; appId: number; name: Uint8Array };
+
+// Returns the resource named in the error message if the error was raised
+// accessing an unavailable resource. Boxes belong to the app passed
+export function parseUnavailableResource(
+  msg: string,
+  appId: number,
+): ResourceReference | undefined {
+  const res = UNAVAILABLE_RESOURCE.exec(msg);
+  if (res === null || res[2] === undefined) return undefined;
+
+  const val = res[2].replace(/[.,:]$/, '');
+  switch (res[1]) {
+    case 'Account':
+      return algosdk.isValidAddress(val)
+        ? { type: 'account', address: val }
+        : undefined;
+    case 'Asset':
+      return /^[0-9]+$/.test(val)
+        ? { type: 'asset', id: parseInt(val) }
+        : undefined;
+    case 'App':
+      return /^[0-9]+$/.test(val)
+        ? { type: 'app', id: parseInt(val) }
+        : undefined;
+    case 'Box':
+      return {
+        type: 'box',
+        appId: appId,
+        name: /^0x([0-9a-f]{2})*$/i.test(val)
+          ? new Uint8Array(Buffer.from(val.slice(2), 'hex'))
+          : new Uint8Array(Buffer.from(val)),
+      };
+  }
+  return undefined;
+}
+
+// Used to tell when the same resource is found unavailable twice
+export function referenceKey(ref: ResourceReference): string {
+  switch (ref.type) {
+    case 'account':
+      return `account:${ref.address}`;
+    case 'box':
+      return `box:${ref.appId}:${Buffer.from(ref.name).toString('hex')}`;
+    default:
+      return `${ref.type}:${ref.id}`;
+  }
+}
+
+// Adds the reference to the foreign arrays of the app call. Returns false if
+// they have no room for it
+export function addReference(
+  txn: algosdk.Transaction,
+  ref: ResourceReference,
+): boolean {
+  const accounts = txn.appAccounts ?? [];
+  const apps = txn.appForeignApps ?? [];
+  const assets = txn.appForeignAssets ?? [];
+  const boxes = txn.boxes ?? [];
+  const total = accounts.length + apps.length + assets.length + boxes.length;
+
+  switch (ref.type) {
+    case 'account':
+      if (accounts.length >= MAX_ACCOUNTS || total >= MAX_REFERENCES)
+        return false;
+      txn.appAccounts = [...accounts, algosdk.decodeAddress(ref.address)];
+      return true;
+    case 'asset':
+      if (total >= MAX_REFERENCES) return false;
+      txn.appForeignAssets = [...assets, ref.id];
+      return true;
+    case 'app':
+      if (total >= MAX_REFERENCES) return false;
+      txn.appForeignApps = [...apps, ref.id];
+      return true;
+    case 'box':
+      // Boxes of other apps can only be referenced if the app is listed too
+      const listed = ref.appId === txn.appIndex || apps.includes(ref.appId);
+      if (total + (listed ? 1 : 2) > MAX_REFERENCES) return false;
+      if (!listed) txn.appForeignApps = [...apps, ref.appId];
+      txn.boxes = [...boxes, { appIndex: ref.appId, name: ref.name }];
+      return true;
+  }
+}
+
+// Copies the foreign arrays of one app call to another. The arrays of the
+// source must start with those of the target, so the indexes of reference
+// args stay the same
+export function copyReferences(
+  from: algosdk.Transaction,
+  to: algosdk.Transaction,
+): void {
+  to.appAccounts = from.appAccounts ?? [];
+  to.appForeignApps = from.appForeignApps ?? [];
+  to.appForeignAssets = from.appForeignAssets ?? [];
+  to.boxes = from.boxes ?? [];
+}
@@ -0,0 +1,114 @@
+import algosdk from 'algosdk';
+
+// Signs transactions sent from a multisig account with the keys of the
+// subsigners held by this session, merged with partial signatures
+// collected from other sessions
+export class MultisigSigner {
+  params: algosdk.MultisigMetadata;
+  address: string;
+
+  private keys: Uint8Array[] = [];
+  // Partially signed transactions from other sessions, keyed by txID
+  private partials: Map<string, Uint8Array[]> = new Map();
+
+  constructor(params: algosdk.MultisigMetadata, sks: Uint8Array[] = []) {
+    this.params = params;
+    this.address = algosdk.multisigAddress(params);
+    for (const sk of sks) this.addSubsigner(sk);
+  }
+
+  addSubsigner(sk: Uint8Array): void {
+    const addr = algosdk.encodeAddress(sk.slice(32));
+    if (!this.params.addrs.includes(addr))
+      throw new Error(`not a subsigner of multisig ${this.address}: ${addr}`);
+    this.keys.push(sk);
+  }
+
+  // Adds transactions partially signed by other sessions, to be merged
+  // with the signatures of this one when signing
+  addPartials(blobs: Uint8Array[]): void {
+    for (const blob of blobs) {
+      const txID = algosdk.decodeSignedTransaction(blob).txn.txID();
+      this.partials.set(txID, [...(this.partials.get(txID) ?? []), blob]);
+    }
+  }
+
+  // Signs the transactions with the keys held by this session, merged with the
+  // partials added, without checking the threshold is met. Used to pass the
+  // signatures on to another session
+  signPartial(txns: algosdk.Transaction[]): Uint8Array[] {
+    return txns.map((txn) => {
+      const blobs = [...(this.partials.get(txn.txID()) ?? [])];
+
+      let signed: Uint8Array | undefined;
+      for (const sk of this.keys)
+        signed =
+          signed === undefined
+            ? algosdk.signMultisigTransaction(txn, this.params, sk).blob
+            : algosdk.appendSignMultisigTransaction(signed, this.params, sk)
+                .blob;
+      if (signed !== undefined) blobs.push(signed);
+
+      const blob = blobs[0];
+      if (blob === undefined)
+        throw new Error(`no signatures for transaction ${txn.txID()}`);
+      return blobs.length === 1
+        ? blob
+        : algosdk.mergeMultisigTransactions(blobs);
+    });
+  }
+
+  signer: algosdk.TransactionSigner = async (
+    txnGroup: algosdk.Transaction[],
+    indexesToSign: number[],
+  ): Promise<Uint8Array[]> => {
+    const txns = indexesToSign.map((idx) => {
+      const txn = txnGroup[idx];
+      if (txn === undefined) throw new Error(`no transaction at index ${idx}`);
+      return txn;
+    });
+
+    const signed = this.signPartial(txns);
+    for (const [i, blob] of signed.entries()) {
+      const sigs = algosdk
+        .decodeSignedTransaction(blob)
+        .msig?.subsig.filter((s) => s.s !== undefined).length;
+      if (sigs === undefined || sigs < this.params.threshold)
+        throw new Error(
+          `multisig ${this.address} has ${sigs ?? 0} of ${
+            this.params.threshold
+          } signatures for transaction ${indexesToSign[i]}`,
+        );
+    }
+    return signed;
+  };
+}
+
+// Signs transactions with a logic signature, either as the contract account
+// of the program or, once delegated, as the account that signed it
+export class LogicSigSigner {
+  lsig: algosdk.LogicSigAccount;
+
+  constructor(lsig: algosdk.LogicSigAccount) {
+    this.lsig = lsig;
+  }
+
+  get address(): string {
+    return this.lsig.address();
+  }
+
+  // Delegates signing for the account of the secret key to the program
+  delegate(sk: Uint8Array): void {
+    this.lsig.sign(sk);
+  }
+
+  signer: algosdk.TransactionSigner = async (
+    txnGroup: algosdk.Transaction[],
+    indexesToSign: number[],
+  ): Promise<Uint8Array[]> => {
+    return algosdk.makeLogicSigAccountTransactionSigner(this.lsig)(
+      txnGroup,
+      indexesToSign,
+    );
+  };
+}
@@ -1,3 +1,6 @@
+import algosdk from 'algosdk';
+import { AVMType, avmType, Schema, Struct } from '../generate/appspec';
+
 // Represents the global-state and global-state-delta we get back from
 // AlgodClient requests, state-deltas will contain an action, state will
 // contain the type. In both cases 1 is for bytes, 2 is for ints. We use
@@ -12,9 +15,50 @@ export interface StateValue {
   };
 }
 
-// Generic object to hold state keys/values
+// Generic object to hold state keys/values, bytes values are decoded
+// to objects if the schema says they hold a struct
 export interface State {
-  [key: string]: string | number | Uint8Array;
+  [key: string]: string | number | Uint8Array | object;
+}
+
+export function decodeNamedTuple(
+  v: algosdk.ABIValue | undefined,
+  keys: string[],
+): object {
+  if (v === undefined) return {};
+  if (!Array.isArray(v)) throw Error('Expected array');
+  if (v.length != keys.length)
+    throw Error('Different key length than value length');
+
+  return Object.fromEntries(
+    keys.map((key, idx) => {
+      return [key, v[idx]];
+    }),
+  );
+}
+
+export function decodeStruct(s: Struct, val: Uint8Array): object {
+  const codec = algosdk.ABIType.from(
+    `(${s.elements.map((e) => e[1]).join(',')})`,
+  );
+  return decodeNamedTuple(
+    codec.decode(val),
+    s.elements.map((e) => e[0]),
+  );
+}
+
+// Returns the struct that the bytes value stored under the key holds, if any
+function structForKey(schema: Schema, key: Buffer): Struct | undefined {
+  for (const sv of Object.values(schema.declared)) {
+    if (Buffer.from(sv.key).equals(key)) return sv.struct;
+  }
+
+  // Keys are not namespaced per reserved field, so we can only
+  // tell if there is a single reserved bytes field
+  const reserved = Object.values(schema.reserved).filter(
+    (sv) => avmType(sv.type) === AVMType.bytes,
+  );
+  return reserved.length === 1 ? reserved[0]?.struct : undefined;
 }
 
 function strOrHex(v: Buffer): string {
@@ -27,7 +71,11 @@ function strOrHex(v: Buffer): string {
 
 // Converts an array of global-state or global-state-deltas to a more
 // friendly generic object
-export function decodeState(state: StateValue[], raw?: boolean): State {
+export function decodeState(
+  state: StateValue[],
+  raw?: boolean,
+  schema?: Schema,
+): State {
   const obj = {} as State;
 
   // Start with empty set
@@ -41,7 +89,22 @@ export function decodeState(state: StateValue[], raw?: boolean): State {
     switch (dataTypeFlag) {
       case 1:
         const valBuff = Buffer.from(value.bytes, 'base64');
-        obj[key] = raw ? new Uint8Array(valBuff) : strOrHex(valBuff);
+        if (raw) {
+          obj[key] = new Uint8Array(valBuff);
+          break;
+        }
+
+        const struct = schema ? structForKey(schema, keyBuff) : undefined;
+        obj[key] = strOrHex(valBuff);
+        // Values that do not decode, like ones written by an older version
+        // of the app, are left as they are
+        if (struct !== undefined) {
+          try {
+            obj[key] = decodeStruct(struct, new Uint8Array(valBuff));
+          } catch (e) {
+            // Keep the string
+          }
+        }
         break;
       case 2:
         obj[key] = value.uint;
@@ -55,3 +118,143 @@ export function decodeState(state: StateValue[], raw?: boolean): State {
 
 export type ApplicationState = State;
 export type AccountState = State;
+
+// Values of reserved state, keyed by the raw state key. Keys may be passed
+// as bytes or as utf-8 strings
+export class ReservedState<T> {
+  private values: Map<string, T> = new Map();
+
+  private static hexKey(key: string | Uint8Array): string {
+    return Buffer.from(key).toString('hex');
+  }
+
+  set(key: string | Uint8Array, value: T): void {
+    this.values.set(ReservedState.hexKey(key), value);
+  }
+
+  get(key: string | Uint8Array): T | undefined {
+    return this.values.get(ReservedState.hexKey(key));
+  }
+
+  has(key: string | Uint8Array): boolean {
+    return this.values.has(ReservedState.hexKey(key));
+  }
+
+  keys(): Uint8Array[] {
+    return [...this.values.keys()].map(
+      (k) => new Uint8Array(Buffer.from(k, 'hex')),
+    );
+  }
+
+  entries(): [Uint8Array, T][] {
+    return [...this.values.entries()].map(([k, v]) => [
+      new Uint8Array(Buffer.from(k, 'hex')),
+      v,
+    ]);
+  }
+
+  get size(): number {
+    return this.values.size;
+  }
+}
+
+export type SchemaStateValue = bigint | Uint8Array | object;
+
+type DecodeFn = (val: Uint8Array) => SchemaStateValue;
+
+// Decodes the bytes value, keeping the raw bytes if there is no decoder or
+// the value does not decode, so one bad value does not fail the whole read
+function decodeValue(
+  decode: DecodeFn | undefined,
+  val: SchemaStateValue,
+): SchemaStateValue {
+  if (decode === undefined || !(val instanceof Uint8Array)) return val;
+  try {
+    return decode(val);
+  } catch (e) {
+    return val;
+  }
+}
+
+// Decoders for bytes values, keyed by the field name in the schema
+export type StateDecoders = Record<string, (val: Uint8Array) => object>;
+
+// State keyed by the field names in the schema, declared values are
+// undefined until set
+export type SchemaState = Record<
+  string,
+  SchemaStateValue | ReservedState<SchemaStateValue> | undefined
+>;
+
+// Converts an array of global-state or local-state to an object with a
+// property per field in the schema. Bytes values are passed through the
+// decoder for their field, or decoded as the struct in the schema
+export function decodeSchemaState(
+  state: StateValue[],
+  schema: Schema,
+  decoders?: StateDecoders,
+): SchemaState {
+  const obj = {} as SchemaState;
+
+  const decoderFor = (field: string, struct?: Struct): DecodeFn | undefined => {
+    const decoder = decoders?.[field];
+    if (decoder !== undefined) return decoder;
+    if (struct !== undefined) return (val) => decodeStruct(struct, val);
+    return undefined;
+  };
+
+  const declared: Record<string, [string, DecodeFn | undefined]> = {};
+  for (const [field, spec] of Object.entries(schema.declared)) {
+    declared[Buffer.from(spec.key).toString('hex')] = [
+      field,
+      decoderFor(field, spec.struct),
+    ];
+  }
+
+  const reserved: [
+    AVMType,
+    ReservedState<SchemaStateValue>,
+    DecodeFn | undefined,
+  ][] = [];
+  for (const [field, spec] of Object.entries(schema.reserved)) {
+    const rs = new ReservedState<SchemaStateValue>();
+    reserved.push([avmType(spec.type), rs, decoderFor(field, spec.struct)]);
+    obj[field] = rs;
+  }
+
+  for (const stateVal of state) {
+    const keyBuff = Buffer.from(stateVal.key, 'base64');
+    const value = stateVal.value;
+
+    let type: AVMType;
+    let val: SchemaStateValue;
+    switch (value.action ? value.action : value.type) {
+      case 1:
+        type = AVMType.bytes;
+        val = new Uint8Array(Buffer.from(value.bytes, 'base64'));
+        break;
+      case 2:
+        type = AVMType.uint64;
+        val = BigInt(value.uint);
+        break;
+      default:
+        continue;
+    }
+
+    const decl = declared[keyBuff.toString('hex')];
+    if (decl !== undefined) {
+      const [field, decode] = decl;
+      obj[field] = decodeValue(decode, val);
+      continue;
+    }
+
+    // Keys are not namespaced per reserved field, so the best we can
+    // do is match the type. Like structForKey, values are only decoded
+    // when a single reserved field has the type
+    const fields = reserved.filter(([rsType]) => rsType === type);
+    for (const [, rs, decode] of fields)
+      rs.set(keyBuff, fields.length === 1 ? decodeValue(decode, val) : val);
+  }
+
+  return obj;
+}
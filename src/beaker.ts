@@ -1,10 +1,33 @@
 #!/usr/bin/env -S npx tsx
 
 import { Command } from 'commander';
-import { generateApplicationClient } from '.';
+import algosdk from 'algosdk';
+import {
+  ApplicationClient,
+  DeployAction,
+  OnSchemaBreak,
+  OnUpdate,
+  clients,
+  sandbox,
+  readAppSpec,
+  Target,
+  CONFIG_FILE,
+  GenerateEntry,
+  GenerateOptions,
+  readGenerateConfig,
+  generateClients,
+  staleFiles,
+  watchClients,
+  findAppSpecs,
+  validateAppSpec,
+  formatSpecErrors,
+  mergeAppSpec,
+  readAppSpecParts,
+  writeAppSpecParts,
+  writeAppSpecNetworks,
+} from '.';
 
 import * as fs from 'fs';
-import * as path from 'path';
 
 //const pjson = require('../package.json'); // eslint-disable-line
 const program = new Command();
@@ -15,35 +38,242 @@ program
 
 program
   .command('generate')
-  .description('Generates an application client given an application spec')
-  .arguments('<path-to-spec> <path-to-write>')
+  .description(
+    'Generates application clients given application specs, read from beaker.config.json if no spec is passed',
+  )
+  .arguments('[path-to-spec] [path-to-write]')
   .option('-l, --local', 'whether or not to use local import')
-  .action((specPath, srcPath, options) => {
-    if (srcPath.slice(-1) !== path.sep) srcPath += path.sep;
+  .option(
+    '-t, --target <target>',
+    `flavor of client to write (${Object.values(Target).join(
+      '|',
+    )}, default: ts)`,
+  )
+  .option(
+    '-s, --standalone',
+    'inline the runtime so the client does not depend on beaker-ts',
+  )
+  .option('-c, --config <path>', 'config listing the specs to generate')
+  .option('--no-index', 'do not write an index.ts exporting every client')
+  .option('--check', 'exit non-zero if generated clients are out of date')
+  .option('-w, --watch', 'regenerate clients whenever their specs change')
+  .action(async (specPath, srcPath, options) => {
+    // Flags passed override the options of every entry of a config
+    const overrides: GenerateOptions = {
+      ...(options.local ? { local: true } : {}),
+      ...(options.target !== undefined ? { target: options.target } : {}),
+      ...(options.standalone ? { standalone: true } : {}),
+      ...(options.index ? {} : { index: false }),
+    };
 
-    if (!fs.lstatSync(srcPath).isDirectory()) {
-      throw Error('Path argument must be a directory');
+    let entries: GenerateEntry[];
+    if (specPath !== undefined) {
+      if (srcPath === undefined) throw Error('Missing path to write to');
+      if (options.config !== undefined)
+        throw Error('Pass either a spec or a config, not both');
+      entries = [{ specs: specPath, out: srcPath, ...overrides }];
+    } else {
+      const configPath = options.config ?? CONFIG_FILE;
+      if (!fs.existsSync(configPath))
+        throw Error(`No spec passed and no ${configPath} found`);
+      entries = readGenerateConfig(configPath).map((entry) => ({
+        ...entry,
+        ...overrides,
+      }));
+    }
+
+    if (options.watch) {
+      if (options.check) throw Error('Can not check while watching');
+      watchClients(entries, { log: (line) => console.log(line) });
+      console.log('Watching specs for changes, press Ctrl+C to stop');
+      return;
     }
 
-    if (!fs.lstatSync(specPath).isFile()) {
-      throw Error('Path to spec must be a file');
+    const files = await generateClients(entries);
+
+    if (options.check) {
+      const stale = staleFiles(files);
+      for (const fileName of stale) console.log(`Out of date: ${fileName}`);
+      if (stale.length > 0) process.exitCode = 1;
+      else console.log('Generated clients are up to date');
+      return;
     }
 
-    let jsonObj = JSON.parse(fs.readFileSync(specPath).toString());
-    if (!('contract' in jsonObj)) {
-      jsonObj = { hints: {}, source: {}, schema: {}, contract: jsonObj };
+    for (const file of files) {
+      fs.writeFileSync(file.fileName, file.contents);
+      console.log(`Wrote client to: ${file.fileName}`);
     }
+  });
 
-    const outputFile = generateApplicationClient(
-      jsonObj,
-      options.local ? '../../src/' : undefined,
+program
+  .command('validate')
+  .description(
+    'Checks application specs are complete and consistent before generating clients from them',
+  )
+  .arguments('<path-to-spec>')
+  .action((specPath) => {
+    for (const file of findAppSpecs(specPath)) {
+      const errors = validateAppSpec(readAppSpec(file));
+      if (errors.length > 0) {
+        console.log(`${file} is invalid:\n${formatSpecErrors(errors)}`);
+        process.exitCode = 1;
+      } else console.log(`${file} is valid`);
+    }
+  });
+
+const spec = program
+  .command('spec')
+  .description('Converts between application specs and their parts');
+
+spec
+  .command('merge')
+  .description(
+    'Fills in a bare ARC-4 contract or application spec with programs, schema and hints from separate files',
+  )
+  .arguments('<path-to-contract> <path-to-write>')
+  .option('--approval <path>', 'TEAL source of the approval program')
+  .option('--clear <path>', 'TEAL source of the clear program')
+  .option('--schema <path>', 'schema of the app as JSON')
+  .option('--hints <path>', 'hints keyed by method name as JSON')
+  .option(
+    '--bare-call-config <path>',
+    'on-completions allowed for bare calls as JSON',
+  )
+  .option('--networks <path>', 'app ids keyed by genesis hash as JSON')
+  .action((contractPath, specPath, options) => {
+    const merged = mergeAppSpec(
+      readAppSpec(contractPath),
+      readAppSpecParts({
+        approval: options.approval,
+        clear: options.clear,
+        schema: options.schema,
+        hints: options.hints,
+        bare_call_config: options.bareCallConfig,
+        networks: options.networks,
+      }),
     );
-    const name: string = jsonObj.contract.name;
-    const file_name = `${name.toLowerCase()}_client.ts`;
 
-    fs.writeFileSync(srcPath + file_name, outputFile);
+    const errors = validateAppSpec(merged);
+    if (errors.length > 0) {
+      console.log(`Merged spec is invalid:\n${formatSpecErrors(errors)}`);
+      process.exitCode = 1;
+      return;
+    }
 
-    console.log(`Wrote client to: ${srcPath + file_name}`);
+    fs.writeFileSync(specPath, JSON.stringify(merged, undefined, 4));
+    console.log(`Wrote spec to: ${specPath}`);
+  });
+
+spec
+  .command('split')
+  .description(
+    'Splits an application spec into its ARC-4 contract, programs, schema, hints and app ids',
+  )
+  .arguments('<path-to-spec> <path-to-write>')
+  .action((specPath, dirPath) => {
+    if (!fs.lstatSync(dirPath).isDirectory())
+      throw Error('Path argument must be a directory');
+
+    for (const written of writeAppSpecParts(dirPath, readAppSpec(specPath)))
+      console.log(`Wrote ${written}`);
+  });
+
+program
+  .command('deploy')
+  .description(
+    'Creates the application given an application spec, or updates it if it already exists',
+  )
+  .arguments('<path-to-spec>')
+  .option(
+    '-n, --network <network>',
+    'network to deploy to',
+    clients.Network.SandNet,
+  )
+  .option(
+    '-p, --provider <provider>',
+    'API provider to use',
+    clients.APIProvider.Sandbox,
+  )
+  .option('-t, --token <token>', 'API token for the provider')
+  .option(
+    '--on-update <action>',
+    `what to do if the programs changed (${Object.values(OnUpdate).join('|')})`,
+    OnUpdate.Fail,
+  )
+  .option(
+    '--on-schema-break <action>',
+    `what to do if the schema changed (${Object.values(OnSchemaBreak).join(
+      '|',
+    )})`,
+    OnSchemaBreak.Fail,
+  )
+  .option(
+    '--no-write-networks',
+    'do not write the app id back to the networks in the spec',
+  )
+  .action(async (specPath, options) => {
+    if (!Object.values(OnUpdate).includes(options.onUpdate))
+      throw Error(`Unrecognized on-update action: ${options.onUpdate}`);
+    if (!Object.values(OnSchemaBreak).includes(options.onSchemaBreak))
+      throw Error(
+        `Unrecognized on-schema-break action: ${options.onSchemaBreak}`,
+      );
+
+    const spec = readAppSpec(specPath);
+
+    // Sign with the account in BEAKER_MNEMONIC if set, otherwise use a sandbox account
+    let sender: string;
+    let signer: algosdk.TransactionSigner;
+    const mnemonic = process.env['BEAKER_MNEMONIC'];
+    if (mnemonic !== undefined) {
+      const acct = algosdk.mnemonicToSecretKey(mnemonic);
+      sender = acct.addr;
+      signer = algosdk.makeBasicAccountTransactionSigner(acct);
+    } else {
+      const acct = (await sandbox.getAccounts()).pop();
+      if (acct === undefined) throw Error('No sandbox accounts available');
+      sender = acct.addr;
+      signer = acct.signer;
+    }
+
+    const appClient = new ApplicationClient({
+      client: clients.getAlgodClient(
+        options.provider,
+        options.network,
+        options.token,
+      ),
+      signer: signer,
+      sender: sender,
+    });
+    appClient.name = spec.contract.name;
+    appClient.approvalProgram = spec.source.approval;
+    appClient.clearProgram = spec.source.clear;
+    appClient.appSchema = spec.schema.global;
+    appClient.acctSchema = spec.schema.local;
+    appClient.networks = spec.contract.networks;
+
+    const result = await appClient.deploy({
+      indexer: clients.getIndexerClient(
+        options.provider,
+        options.network,
+        options.token,
+      ),
+      onUpdate: options.onUpdate,
+      onSchemaBreak: options.onSchemaBreak,
+    });
+
+    console.log(
+      `Deploy action ${result.action}: app ${result.appId} with address ${result.appAddress}`,
+    );
+
+    const created =
+      result.action === DeployAction.Create ||
+      result.action === DeployAction.Replace;
+    if (options.writeNetworks && created) {
+      // The client adds the app it created to its networks
+      writeAppSpecNetworks(specPath, appClient.networks ?? {});
+      console.log(`Wrote app id to: ${specPath}`);
+    }
   });
 
-program.parse();
+program.parseAsync();
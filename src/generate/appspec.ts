@@ -4,7 +4,24 @@ export interface AppSpec {
   hints: HintSpec;
   schema: SchemaSpec;
   source: AppSources;
-  contract: algosdk.ABIContract;
+  contract: ContractSpec;
+  // On-completions the app may be called with without a method
+  bare_call_config?: CallConfig;
+}
+
+// ARC-4 contract, optionally declaring the ARC-28 events it logs
+export type ContractSpec = algosdk.ABIContract & { events?: EventSpec[] };
+
+export interface EventArgSpec {
+  type: string;
+  name?: string;
+  desc?: string;
+}
+
+export interface EventSpec {
+  name: string;
+  desc?: string;
+  args: EventArgSpec[];
 }
 
 export type HintSpec = Record<string, Hint>;
@@ -12,6 +29,8 @@ export type HintSpec = Record<string, Hint>;
 export interface SchemaSpec {
   local: Schema;
   global: Schema;
+  // Box maps keyed by field name
+  boxes?: Record<string, BoxSpec>;
 }
 
 export interface AppSources {
@@ -21,8 +40,25 @@ export interface AppSources {
 
 export interface Hint {
   structs: Record<string, Struct>;
-  readonly: boolean;
+  read_only: boolean;
   default_arguments: Record<string, DefaultArgument>;
+  // Receivers of payment and asset transfer args built from a descriptor,
+  // keyed by arg name, in place of the app address
+  receivers?: Record<string, string>;
+  // On-completions the method may be called with, a NoOp call if unset
+  call_config?: CallConfig;
+}
+
+// Whether an on-completion is allowed for calls to an existing app, to
+// create the app, or both
+export type CallConfigValue = 'NEVER' | 'CALL' | 'CREATE' | 'ALL';
+
+export interface CallConfig {
+  no_op?: CallConfigValue;
+  opt_in?: CallConfigValue;
+  close_out?: CallConfigValue;
+  update_application?: CallConfigValue;
+  delete_application?: CallConfigValue;
 }
 
 type StructElement = [string, string];
@@ -45,12 +81,16 @@ export interface DeclaredSchemaValueSpec {
   key: string;
   desc: string;
   static: boolean;
+  // Set if the bytes value is an ABI encoded tuple
+  struct?: Struct;
 }
 
 export interface ReservedSchemaValueSpec {
   type: AVMType;
   desc: string;
   max_keys: number;
+  // Set if the bytes values are ABI encoded tuples
+  struct?: Struct;
 }
 
 export interface Schema {
@@ -58,24 +98,77 @@ export interface Schema {
   reserved: Record<string, ReservedSchemaValueSpec>;
 }
 
+// A map of boxes, each named by the prefix followed by the ABI encoded
+// key and holding the ABI encoded value
+export interface BoxSpec {
+  key_type: string;
+  value_type: string;
+  prefix?: string;
+  desc?: string;
+  // Used to size the min balance for values of dynamic ABI types
+  max_value_size?: number;
+  // Set if the values are ABI encoded tuples
+  struct?: Struct;
+}
+
 export type StateSchema = {
   uints: number;
   bytes: number;
 };
 
+// App spec json written by beaker-pyteal carries the AVMType by name
+// rather than by value
+export function avmType(t: AVMType | string): AVMType {
+  return typeof t === 'string' ? AVMType[t as keyof typeof AVMType] : t;
+}
+
 export function getStateSchema(s: Schema): StateSchema {
   let uints = 0;
   let bytes = 0;
 
   for (const item of Object.entries(s.declared)) {
-    if (item[1].type == AVMType.bytes) bytes += 1;
-    if (item[1].type == AVMType.uint64) uints += 1;
+    if (avmType(item[1].type) == AVMType.bytes) bytes += 1;
+    if (avmType(item[1].type) == AVMType.uint64) uints += 1;
   }
 
   for (const item of Object.entries(s.reserved)) {
-    if (item[1].type == AVMType.bytes) bytes += item[1].max_keys;
-    if (item[1].type == AVMType.uint64) uints += item[1].max_keys;
+    if (avmType(item[1].type) == AVMType.bytes) bytes += item[1].max_keys;
+    if (avmType(item[1].type) == AVMType.uint64) uints += item[1].max_keys;
   }
 
   return { uints: uints, bytes: bytes };
 }
+
+// Specs written before call configs were added allowed any bare call
+// and NoOp calls to methods
+const LEGACY_BARE_CALL_CONFIG: CallConfig = {
+  no_op: 'CREATE',
+  opt_in: 'CALL',
+  close_out: 'CALL',
+  update_application: 'CALL',
+  delete_application: 'CALL',
+};
+
+function hasCallConfig(spec: AppSpec): boolean {
+  return (
+    spec.bare_call_config !== undefined ||
+    Object.values(spec.hints).some((hint) => hint.call_config !== undefined)
+  );
+}
+
+export function bareCallConfig(spec: AppSpec): CallConfig {
+  if (!hasCallConfig(spec)) return LEGACY_BARE_CALL_CONFIG;
+  return spec.bare_call_config ?? {};
+}
+
+export function methodCallConfig(spec: AppSpec, method: string): CallConfig {
+  return spec.hints[method]?.call_config ?? { no_op: 'CALL' };
+}
+
+export function allowsCall(v: CallConfigValue | undefined): boolean {
+  return v === 'CALL' || v === 'ALL';
+}
+
+export function allowsCreate(v: CallConfigValue | undefined): boolean {
+  return v === 'CREATE' || v === 'ALL';
+}
@@ -0,0 +1,248 @@
+import type { AppSpec, Struct } from './appspec';
+import {
+  generateApplicationClient,
+  generateIndex,
+  generatedExports,
+} from './generate';
+import { readAppSpec } from './spec_file';
+import { formatSpecErrors, validateAppSpec } from './validate';
+import {
+  GeneratedFile,
+  RUNTIME_PATH,
+  Target,
+  bundleClient,
+  compileClient,
+} from './targets';
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Read by `beaker generate` when no spec is passed
+export const CONFIG_FILE = 'beaker.config.json';
+
+export interface GenerateOptions {
+  // Import beaker-ts from the source of this repo, for the examples
+  local?: boolean;
+  target?: Target;
+  // Inline the runtime so clients do not depend on beaker-ts
+  standalone?: boolean;
+  // Write an index.ts exporting every client in the output directory.
+  // Defaults to doing so when more than one ts client is written there
+  index?: boolean;
+}
+
+// The specs to generate clients for, as a file, a directory of specs or a
+// glob pattern, and the directory the clients are written to
+export interface GenerateEntry extends GenerateOptions {
+  specs: string;
+  out: string;
+}
+
+// Contents of beaker.config.json, the options at the top level apply to
+// every entry that does not set its own
+export interface GenerateConfig extends GenerateOptions {
+  clients: GenerateEntry[];
+}
+
+// Reads the entries of the config, resolving their paths from the directory
+// the config is in unless they are absolute
+export function readGenerateConfig(configPath: string): GenerateEntry[] {
+  const config = JSON.parse(
+    fs.readFileSync(configPath).toString(),
+  ) as GenerateConfig;
+  if (!Array.isArray(config.clients))
+    throw Error(`No clients listed in ${configPath}`);
+
+  const dir = path.dirname(configPath);
+  const { clients, ...defaults } = config;
+  return clients.map((entry) => ({
+    ...defaults,
+    ...entry,
+    specs: path.resolve(dir, entry.specs),
+    out: path.resolve(dir, entry.out),
+  }));
+}
+
+// Returns the spec files matched by the path, which may be a file, a
+// directory of .json files or a glob pattern using *, ** and ?
+export function findAppSpecs(specs: string): string[] {
+  if (/[*?]/.test(specs)) {
+    const parts = specs.split(/[\\/]/);
+    const firstGlob = parts.findIndex((p) => /[*?]/.test(p));
+    const base = parts.slice(0, firstGlob).join(path.sep) || '.';
+    const pattern = globPattern(parts.slice(firstGlob).join('/'));
+
+    const matched = listFiles(base).filter((file) =>
+      pattern.test(path.relative(base, file).split(path.sep).join('/')),
+    );
+    if (matched.length === 0) throw Error(`No specs match ${specs}`);
+    return matched.sort();
+  }
+
+  if (fs.lstatSync(specs).isDirectory()) {
+    const matched = fs
+      .readdirSync(specs)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => path.join(specs, name));
+    if (matched.length === 0) throw Error(`No specs found in ${specs}`);
+    return matched.sort();
+  }
+
+  return [specs];
+}
+
+// Generates the files for the client of the spec in the directory passed
+export async function generateClientFiles(
+  spec: AppSpec,
+  outDir: string,
+  options: GenerateOptions,
+): Promise<GeneratedFile[]> {
+  const target = options.target ?? Target.TS;
+  if (!Object.values(Target).includes(target))
+    throw Error(`Unrecognized target: ${target}`);
+
+  let beakerPath: string | undefined;
+  if (options.standalone) beakerPath = RUNTIME_PATH;
+  else if (options.local) beakerPath = '../../src/';
+
+  const source = generateApplicationClient(spec, beakerPath);
+  const baseName = clientBaseName(spec);
+
+  const files = options.standalone
+    ? await bundleClient(source, baseName, target)
+    : compileClient(source, baseName, outDir, target);
+  return files.map((file) => ({
+    fileName: path.join(outDir, file.fileName),
+    contents: file.contents,
+  }));
+}
+
+// Generates the clients of every entry, along with an index for each output
+// directory that gets one, without writing anything
+export async function generateClients(
+  entries: GenerateEntry[],
+): Promise<GeneratedFile[]> {
+  const files: GeneratedFile[] = [];
+  const dirs: Record<string, { specs: AppSpec[]; index?: boolean }> = {};
+
+  for (const entry of entries) {
+    if (!fs.lstatSync(entry.out).isDirectory())
+      throw Error(`Output path must be a directory: ${entry.out}`);
+
+    const outDir = path.resolve(entry.out);
+    const dir = (dirs[outDir] ??= { specs: [] });
+    if (entry.index !== undefined) dir.index = entry.index;
+
+    for (const specPath of findAppSpecs(entry.specs)) {
+      const spec = readAppSpec(specPath);
+      const errors = validateAppSpec(spec);
+      if (errors.length > 0)
+        throw Error(`Invalid spec ${specPath}:\n${formatSpecErrors(errors)}`);
+      files.push(...(await generateClientFiles(spec, entry.out, entry)));
+
+      if ((entry.target ?? Target.TS) === Target.TS) dir.specs.push(spec);
+      else if (entry.index)
+        throw Error('An index can only be written for ts clients');
+    }
+  }
+
+  for (const [outDir, dir] of Object.entries(dirs)) {
+    if (dir.index ?? dir.specs.length > 1)
+      files.push({
+        fileName: path.join(outDir, 'index.ts'),
+        contents: clientIndex(dir.specs),
+      });
+  }
+  return files;
+}
+
+// Returns the files that differ from what is on disk
+export function staleFiles(files: GeneratedFile[]): string[] {
+  return files
+    .filter(
+      (file) =>
+        !fs.existsSync(file.fileName) ||
+        fs.readFileSync(file.fileName).toString() !== file.contents,
+    )
+    .map((file) => file.fileName);
+}
+
+export function clientBaseName(spec: AppSpec): string {
+  return `${spec.contract.name.toLowerCase()}_client`;
+}
+
+// Creates the index exporting the clients, their structs and events. A struct
+// defined the same way by several contracts is exported once, any other name
+// exported by two contracts is an error
+function clientIndex(specs: AppSpec[]): string {
+  const owners: Record<string, { contract: string; struct?: Struct }> = {};
+  const modules: Record<string, string[]> = {};
+
+  for (const spec of specs) {
+    const contract = spec.contract.name;
+    const exports = generatedExports(spec);
+    const names: string[] = [];
+
+    const claim = (name: string, struct?: Struct): void => {
+      const owner = owners[name];
+      if (owner === undefined) {
+        owners[name] =
+          struct !== undefined ? { contract, struct } : { contract };
+        names.push(name);
+        return;
+      }
+      if (
+        struct === undefined ||
+        owner.struct === undefined ||
+        !sameStruct(struct, owner.struct)
+      )
+        throw Error(
+          `${name} is defined differently by ${owner.contract} and ${contract}`,
+        );
+    };
+
+    claim(exports.client);
+    for (const struct of exports.structs) claim(struct.name, struct);
+    for (const event of exports.events) claim(event);
+
+    modules[`./${clientBaseName(spec)}`] = names;
+  }
+
+  return generateIndex(modules);
+}
+
+function sameStruct(a: Struct, b: Struct): boolean {
+  return JSON.stringify(a.elements) === JSON.stringify(b.elements);
+}
+
+// Turns a glob pattern into a regex matching paths relative to its base
+function globPattern(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i] as string;
+    if (c === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      if (glob[i + 2] === '/') {
+        re += '(?:.*/)?';
+        i += 2;
+      } else {
+        re += '.*';
+        i += 1;
+      }
+    } else if (c === '*') re += '[^/]*';
+    else if (c === '?') re += '[^/]';
+    else re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const ent of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (ent.name.startsWith('.') || ent.name === 'node_modules') continue;
+    const p = path.join(dir, ent.name);
+    if (ent.isDirectory()) files.push(...listFiles(p));
+    else if (ent.isFile()) files.push(p);
+  }
+  return files;
+}
@@ -1,11 +1,22 @@
 import type {
   AppSpec,
+  BoxSpec,
   DeclaredSchemaValueSpec,
   ReservedSchemaValueSpec,
+  CallConfig,
   Hint,
+  EventSpec,
   Schema,
   Struct,
 } from './appspec';
+import {
+  AVMType,
+  allowsCall,
+  allowsCreate,
+  avmType,
+  bareCallConfig,
+  methodCallConfig,
+} from './appspec';
 
 import algosdk from 'algosdk';
 import ts from 'typescript';
@@ -46,21 +57,53 @@ const ATC_TYPE = factory.createTypeReferenceNode(ATC_IDENT);
 
 // bkr types
 const ABI_RESULT_IDENT = factory.createIdentifier('bkr.ABIResult');
+const SIMULATE_RESULT_IDENT = factory.createIdentifier('bkr.SimulateResult');
 const DECODE_NAMED_TUPLE_IDENT = factory.createIdentifier(
   'bkr.decodeNamedTuple',
 );
 const SCHEMA_TYPE = factory.createTypeReferenceNode('bkr.Schema');
+const RESERVED_STATE_IDENT = factory.createIdentifier('bkr.ReservedState');
+const ABI_EVENT_IDENT = factory.createIdentifier('bkr.ABIEvent');
+const ABI_EVENT_TYPE = factory.createTypeReferenceNode(ABI_EVENT_IDENT);
+const BOX_MAP_IDENT = factory.createIdentifier('bkr.BoxMap');
 const TRANSACTION_OVERRIDES_TYPE = factory.createTypeReferenceNode(
   'bkr.TransactionOverrides',
 );
+const CREATE_RESULT_TYPE = factory.createTypeReferenceNode('bkr.CreateResult');
+const TRANSACTION_RESULT_TYPE = factory.createTypeReferenceNode(
+  'bkr.TransactionResult',
+);
+
+// The property of the client holding the calls made with each on-completion,
+// along with the OnApplicationComplete member and the bare call method
+const ON_COMPLETES: [keyof CallConfig, string, string, string][] = [
+  ['opt_in', 'optIn', 'OptInOC', 'optInApplication'],
+  ['close_out', 'closeOut', 'CloseOutOC', 'closeOutApplication'],
+  ['update_application', 'update', 'UpdateApplicationOC', 'updateApplication'],
+  ['delete_application', 'delete', 'DeleteApplicationOC', 'deleteApplication'],
+];
+
+// Set when a method is called with an on-completion other than a NoOp
+interface OnCompleteCall {
+  onComplete: string;
+  create: boolean;
+}
 
 function tsTypeFromAbiType(argType: string | algosdk.ABIType): ts.TypeNode {
   if (typeof argType === 'string') {
-    if (TXN_TYPES.includes(argType))
-      return factory.createUnionTypeNode([
+    if (TXN_TYPES.includes(argType)) {
+      const types = [
         factory.createTypeReferenceNode('algosdk.TransactionWithSigner'),
         factory.createTypeReferenceNode('algosdk.Transaction'),
-      ]);
+      ];
+      // Payments and asset transfers may be passed as a descriptor
+      // for the client to build
+      if (argType === 'pay' || argType === 'txn')
+        types.push(factory.createTypeReferenceNode('bkr.PaymentArg'));
+      if (argType === 'axfer' || argType === 'txn')
+        types.push(factory.createTypeReferenceNode('bkr.AssetTransferArg'));
+      return factory.createUnionTypeNode(types);
+    }
 
     if (REF_TYPES.includes(argType)) {
       if (['application', 'asset'].includes(argType))
@@ -133,6 +176,12 @@ function defaultValueFromTsType(t: ts.TypeNode): ts.Expression {
       return factory.createIdentifier('false');
     case ts.SyntaxKind.TypeReference:
       return factory.createNewExpression(UINT8_ARRAY_IDENT, undefined, []);
+    case ts.SyntaxKind.ArrayType:
+      return factory.createArrayLiteralExpression([]);
+    case ts.SyntaxKind.TupleType:
+      return factory.createArrayLiteralExpression(
+        (t as ts.TupleTypeNode).elements.map(defaultValueFromTsType),
+      );
   }
 
   return factory.createIdentifier('undefined');
@@ -149,6 +198,9 @@ export function generateApplicationClient(
   const structNodes = generateStructTypes(appSpec);
   nodes.push(...structNodes);
 
+  const eventNodes = generateEventTypes(appSpec);
+  nodes.push(...eventNodes);
+
   const classNode = generateClass(appSpec);
   nodes.push(classNode);
 
@@ -214,10 +266,13 @@ function generateClass(appSpec: AppSpec): ts.ClassDeclaration {
     ],
     [
       ...generateContractProperties(appSpec),
-      ...appSpec.contract.methods.map((meth) =>
-        generateMethodImpl(meth, appSpec),
-      ),
+      ...generateStateAccessors(appSpec),
+      ...generateBoxMaps(appSpec),
+      ...noOpMethods(appSpec).map((meth) => generateMethodImpl(meth, appSpec)),
+      ...generateOnCompleteMethods(appSpec),
       generateComposeMethods(appSpec),
+      generateSimulateMethods(appSpec),
+      generateResultDecoders(appSpec),
     ],
   );
 }
@@ -231,7 +286,7 @@ function generateComposeMethods(spec: AppSpec): ts.ClassElement {
     undefined,
     undefined,
     factory.createObjectLiteralExpression(
-      spec.contract.methods.map((meth) => {
+      noOpMethods(spec).map((meth) => {
         const [key, value] = generateComposeMethodImpl(meth, spec);
         return factory.createPropertyAssignment(key, value);
       }),
@@ -240,11 +295,20 @@ function generateComposeMethods(spec: AppSpec): ts.ClassElement {
   );
 }
 
-// Creates the methods on the AppClient class used to call specific ABI methods
-function generateMethodImpl(
+interface MethodCallParts {
+  params: ts.ParameterDeclaration[];
+  composeExpr: ts.Expression;
+  abiRetType: ts.TypeNode;
+  resultArgs: ts.Expression[];
+}
+
+// Creates the parameters, the call to the compose method, and the result
+// arguments shared by the methods used to call specific ABI methods
+function generateMethodCallParts(
   method: algosdk.ABIMethod,
   spec: AppSpec,
-): ts.ClassElement {
+  call?: OnCompleteCall,
+): MethodCallParts {
   const params: ts.ParameterDeclaration[] = [];
   const abiMethodArgs: ts.PropertyAssignment[] = [];
   const argParams: ts.PropertySignature[] = [];
@@ -405,41 +469,405 @@ function generateMethodImpl(
 
   composeArgs.push(txnParams);
 
+  // Calls with other on-completions are added directly, there is no
+  // compose method for them
   const composeExpr = factory.createAwaitExpression(
-    factory.createCallExpression(
-      factory.createIdentifier('this.compose.' + method.name),
-      undefined,
-      composeArgs,
+    call === undefined
+      ? factory.createCallExpression(
+          factory.createIdentifier('this.compose.' + method.name),
+          undefined,
+          composeArgs,
+        )
+      : factory.createCallExpression(
+          factory.createIdentifier('this.addMethodCall'),
+          undefined,
+          [
+            getMethodByNameExpr(method),
+            factory.createObjectLiteralExpression(abiMethodArgs),
+            txnParams,
+            factory.createIdentifier('undefined'),
+            factory.createObjectLiteralExpression([
+              factory.createPropertyAssignment(
+                'onComplete',
+                factory.createIdentifier(
+                  'algosdk.OnApplicationComplete.' + call.onComplete,
+                ),
+              ),
+              factory.createPropertyAssignment(
+                'create',
+                call.create ? factory.createTrue() : factory.createFalse(),
+              ),
+            ]),
+          ],
+        ),
+  );
+
+  return { params, composeExpr, abiRetType, resultArgs };
+}
+
+// Creates a statement assigning the result of passing the composed method call
+// to the client method named
+function generateResultStatement(
+  clientMethod: string,
+  composeExpr: ts.Expression,
+): ts.Statement {
+  return factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [
+        factory.createVariableDeclaration(
+          factory.createIdentifier('result'),
+          undefined,
+          undefined,
+          factory.createAwaitExpression(
+            factory.createCallExpression(
+              factory.createPropertyAccessExpression(
+                factory.createThis(),
+                factory.createIdentifier(clientMethod),
+              ),
+              undefined,
+              [composeExpr],
+            ),
+          ),
+        ),
+      ],
+      ts.NodeFlags.Const,
     ),
   );
+}
 
-  const body = factory.createBlock(
+function generateSimulateMethods(spec: AppSpec): ts.ClassElement {
+  return factory.createPropertyDeclaration(
+    undefined,
+    undefined,
+    factory.createIdentifier('simulate'),
+    undefined,
+    undefined,
+    factory.createObjectLiteralExpression(
+      noOpMethods(spec).map((meth) => {
+        const [key, value] = generateSimulateMethodImpl(meth, spec);
+        return factory.createPropertyAssignment(key, value);
+      }),
+      true,
+    ),
+  );
+}
+
+// Creates the methods on the AppClient class used to call specific ABI methods
+function generateMethodImpl(
+  method: algosdk.ABIMethod,
+  spec: AppSpec,
+): ts.ClassElement {
+  const { params, composeExpr, abiRetType, resultArgs } =
+    generateMethodCallParts(method, spec);
+
+  const hint =
+    method.name in spec.hints ? spec.hints[method.name] : ({} as Hint);
+
+  // Read only methods are evaluated with dryrun rather than submitted,
+  // and return the value directly since there is no transaction to report on
+  const readOnly = hint?.read_only === true;
+
+  const statements: ts.Statement[] = [
+    generateResultStatement(readOnly ? 'dryrun' : 'execute', composeExpr),
+  ];
+
+  let retType: ts.TypeNode;
+  if (readOnly) {
+    // throw if it was rejected or the value could not be decoded,
+    // the same as a failed execute
+    for (const errProp of ['error', 'decodeError']) {
+      const resultError = factory.createPropertyAccessExpression(
+        factory.createIdentifier('result'),
+        factory.createIdentifier(errProp),
+      );
+      statements.push(
+        factory.createIfStatement(
+          factory.createBinaryExpression(
+            resultError,
+            factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
+            factory.createIdentifier('undefined'),
+          ),
+          factory.createThrowStatement(resultError),
+        ),
+      );
+    }
+
+    const value = resultArgs[1];
+    if (value !== undefined)
+      statements.push(factory.createReturnStatement(value));
+
+    retType = factory.createTypeReferenceNode(
+      factory.createIdentifier('Promise'),
+      [abiRetType],
+    );
+  } else {
+    statements.push(generateResultReturn(abiRetType, resultArgs));
+    retType = factory.createTypeReferenceNode(
+      factory.createIdentifier('Promise'),
+      [factory.createTypeReferenceNode(ABI_RESULT_IDENT, [abiRetType])],
+    );
+  }
+
+  return factory.createMethodDeclaration(
+    undefined,
+    [factory.createModifier(ts.SyntaxKind.AsyncKeyword)],
+    undefined,
+    method.name,
+    undefined,
+    undefined,
+    params,
+    retType,
+    factory.createBlock(statements, true),
+  );
+}
+
+// Creates the statement returning the typed result of an executed method call
+function generateResultReturn(
+  abiRetType: ts.TypeNode,
+  resultArgs: ts.Expression[],
+): ts.Statement {
+  return factory.createReturnStatement(
+    generateResultNew(ABI_RESULT_IDENT, abiRetType, resultArgs),
+  );
+}
+
+// Creates the typed result of a method call, of the class passed
+function generateResultNew(
+  resultClass: ts.Identifier,
+  abiRetType: ts.TypeNode,
+  resultArgs: ts.Expression[],
+): ts.NewExpression {
+  // Pass the client along so inner calls to its methods can be decoded
+  const [resultArg, valueArg] = resultArgs;
+  return factory.createNewExpression(
+    resultClass,
+    [abiRetType],
     [
-      factory.createVariableStatement(
+      resultArg ?? factory.createIdentifier('result'),
+      valueArg ?? factory.createIdentifier('undefined'),
+      factory.createThis(),
+    ],
+  );
+}
+
+// Methods that may be called on the existing app with a NoOp, which get a
+// method on the AppClient class and in `compose` and `simulate`
+function noOpMethods(spec: AppSpec): algosdk.ABIMethod[] {
+  return spec.contract.methods.filter((meth) =>
+    allowsCall(methodCallConfig(spec, meth.name).no_op),
+  );
+}
+
+// Creates a property on the AppClient class per on-completion, holding the
+// methods that may be called with it and a `bare` call if one is allowed.
+// Methods and bare calls that are not allowed are left out, so making them
+// fails to compile
+function generateOnCompleteMethods(spec: AppSpec): ts.ClassElement[] {
+  const bare = bareCallConfig(spec);
+  const props: ts.ClassElement[] = [];
+
+  const createCalls: ts.PropertyAssignment[] = [];
+  const bareCreate = createOnComplete(bare);
+  if (bareCreate !== undefined)
+    createCalls.push(
+      generateBareCall('createApplication', CREATE_RESULT_TYPE, [
+        factory.createIdentifier(
+          'algosdk.OnApplicationComplete.' + onCompleteMember(bareCreate),
+        ),
+      ]),
+    );
+  for (const meth of spec.contract.methods) {
+    const key = createOnComplete(methodCallConfig(spec, meth.name));
+    if (key !== undefined)
+      createCalls.push(
+        generateOnCompleteMethod(meth, spec, {
+          onComplete: onCompleteMember(key),
+          create: true,
+        }),
+      );
+  }
+  if (createCalls.length > 0)
+    props.push(generateOnCompleteProperty('create', createCalls));
+
+  for (const [key, prop, member, bareMethod] of ON_COMPLETES) {
+    const calls: ts.PropertyAssignment[] = [];
+    if (allowsCall(bare[key]))
+      calls.push(generateBareCall(bareMethod, TRANSACTION_RESULT_TYPE, []));
+    for (const meth of spec.contract.methods) {
+      if (allowsCall(methodCallConfig(spec, meth.name)[key]))
+        calls.push(
+          generateOnCompleteMethod(meth, spec, {
+            onComplete: member,
+            create: false,
+          }),
+        );
+    }
+    if (calls.length > 0) props.push(generateOnCompleteProperty(prop, calls));
+  }
+
+  return props;
+}
+
+// The app may be created with any on-completion, use a NoOp if allowed
+function createOnComplete(config: CallConfig): keyof CallConfig | undefined {
+  const keys: (keyof CallConfig)[] = ['no_op', ...ON_COMPLETES.map(([k]) => k)];
+  return keys.find((k) => allowsCreate(config[k]));
+}
+
+function onCompleteMember(key: keyof CallConfig): string {
+  if (key === 'no_op') return 'NoOpOC';
+  const oc = ON_COMPLETES.find(([k]) => k === key);
+  if (oc === undefined) throw new Error(`unknown on-completion: ${key}`);
+  return oc[2];
+}
+
+function generateOnCompleteProperty(
+  name: string,
+  calls: ts.PropertyAssignment[],
+): ts.ClassElement {
+  return factory.createPropertyDeclaration(
+    undefined,
+    undefined,
+    factory.createIdentifier(name),
+    undefined,
+    undefined,
+    factory.createObjectLiteralExpression(calls, true),
+  );
+}
+
+// Creates the `bare` call of an on-completion property, passing the txn
+// overrides and any args on to the client method
+function generateBareCall(
+  clientMethod: string,
+  retType: ts.TypeNode,
+  args: ts.Expression[],
+): ts.PropertyAssignment {
+  const txnParams = factory.createIdentifier('txnParams');
+  return factory.createPropertyAssignment(
+    'bare',
+    factory.createArrowFunction(
+      [factory.createModifier(ts.SyntaxKind.AsyncKeyword)],
+      undefined,
+      [
+        factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          undefined,
+          txnParams,
+          factory.createToken(ts.SyntaxKind.QuestionToken),
+          TRANSACTION_OVERRIDES_TYPE,
+        ),
+      ],
+      factory.createTypeReferenceNode(factory.createIdentifier('Promise'), [
+        retType,
+      ]),
+      undefined,
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(
+          factory.createThis(),
+          factory.createIdentifier(clientMethod),
+        ),
         undefined,
-        factory.createVariableDeclarationList(
-          [
-            factory.createVariableDeclaration(
-              factory.createIdentifier('result'),
-              undefined,
-              undefined,
-              factory.createAwaitExpression(
-                factory.createCallExpression(
-                  factory.createPropertyAccessExpression(
-                    factory.createThis(),
-                    factory.createIdentifier('execute'),
-                  ),
-                  undefined,
-                  [composeExpr],
-                ),
+        [txnParams, ...args],
+      ),
+    ),
+  );
+}
+
+// Creates a method of an on-completion property, calling the ABI method with
+// the on-completion and returning the typed result
+function generateOnCompleteMethod(
+  method: algosdk.ABIMethod,
+  spec: AppSpec,
+  call: OnCompleteCall,
+): ts.PropertyAssignment {
+  const { params, composeExpr, abiRetType, resultArgs } =
+    generateMethodCallParts(method, spec, call);
+
+  return factory.createPropertyAssignment(
+    method.name,
+    factory.createArrowFunction(
+      [factory.createModifier(ts.SyntaxKind.AsyncKeyword)],
+      undefined,
+      params,
+      factory.createTypeReferenceNode(factory.createIdentifier('Promise'), [
+        factory.createTypeReferenceNode(ABI_RESULT_IDENT, [abiRetType]),
+      ]),
+      undefined,
+      factory.createBlock(
+        [
+          generateResultStatement('execute', composeExpr),
+          generateResultReturn(abiRetType, resultArgs),
+        ],
+        true,
+      ),
+    ),
+  );
+}
+
+// Creates the `results` property of the AppClient class, with a function per
+// method typing a result returned by `executeSigned` as `execute` does
+function generateResultDecoders(spec: AppSpec): ts.ClassElement {
+  return factory.createPropertyDeclaration(
+    undefined,
+    undefined,
+    factory.createIdentifier('results'),
+    undefined,
+    undefined,
+    factory.createObjectLiteralExpression(
+      spec.contract.methods.map((meth) => {
+        const { abiRetType, resultArgs } = generateMethodCallParts(meth, spec);
+        const [resultArg, valueArg] = resultArgs;
+
+        return factory.createPropertyAssignment(
+          meth.name,
+          factory.createArrowFunction(
+            undefined,
+            undefined,
+            [
+              factory.createParameterDeclaration(
+                undefined,
+                undefined,
+                undefined,
+                'result',
+                undefined,
+                factory.createTypeReferenceNode('algosdk.ABIResult'),
               ),
+            ],
+            factory.createTypeReferenceNode(ABI_RESULT_IDENT, [abiRetType]),
+            undefined,
+            factory.createNewExpression(
+              ABI_RESULT_IDENT,
+              [abiRetType],
+              [
+                resultArg ?? factory.createIdentifier('result'),
+                valueArg ?? factory.createIdentifier('undefined'),
+                factory.createThis(),
+              ],
             ),
-          ],
-          ts.NodeFlags.Const,
-        ),
-      ),
+          ),
+        );
+      }),
+      true,
+    ),
+  );
+}
+
+// Creates the methods on the AppClient class used to evaluate specific ABI methods
+// with dryrun, which are nested inside a `simulate` property.
+function generateSimulateMethodImpl(
+  method: algosdk.ABIMethod,
+  spec: AppSpec,
+): [string, ts.ArrowFunction] {
+  const { params, composeExpr, abiRetType, resultArgs } =
+    generateMethodCallParts(method, spec);
+
+  const body = factory.createBlock(
+    [
+      generateResultStatement('dryrun', composeExpr),
       factory.createReturnStatement(
-        factory.createNewExpression(ABI_RESULT_IDENT, [abiRetType], resultArgs),
+        generateResultNew(SIMULATE_RESULT_IDENT, abiRetType, resultArgs),
       ),
     ],
     true,
@@ -447,22 +875,19 @@ function generateMethodImpl(
 
   const retType = factory.createTypeReferenceNode(
     factory.createIdentifier('Promise'),
-    [factory.createTypeReferenceNode(ABI_RESULT_IDENT, [abiRetType])],
+    [factory.createTypeReferenceNode(SIMULATE_RESULT_IDENT, [abiRetType])],
   );
 
-  const methodSpec = factory.createMethodDeclaration(
-    undefined,
+  const fncSpec = factory.createArrowFunction(
     [factory.createModifier(ts.SyntaxKind.AsyncKeyword)],
     undefined,
-    method.name,
-    undefined,
-    undefined,
     params,
     retType,
+    undefined,
     body,
   );
 
-  return methodSpec;
+  return [method.name, fncSpec];
 }
 
 // Creates the methods on the AppClient class used to call specific ABI methods to produce
@@ -479,19 +904,7 @@ function generateComposeMethodImpl(
   const hint =
     method.name in spec.hints ? spec.hints[method.name] : ({} as Hint);
 
-  callArgs.push(
-    factory.createCallExpression(
-      factory.createIdentifier('algosdk.getMethodByName'),
-      undefined,
-      [
-        factory.createPropertyAccessExpression(
-          factory.createThis(),
-          factory.createIdentifier('methods'),
-        ),
-        factory.createStringLiteral(method.name),
-      ],
-    ),
-  );
+  callArgs.push(getMethodByNameExpr(method));
 
   for (const arg of method.args) {
     if (arg.name === undefined) {
@@ -637,6 +1050,21 @@ function generateComposeMethodImpl(
   return [method.name, fncSpec];
 }
 
+// Looks up the ABIMethod on the client by name
+function getMethodByNameExpr(method: algosdk.ABIMethod): ts.Expression {
+  return factory.createCallExpression(
+    factory.createIdentifier('algosdk.getMethodByName'),
+    undefined,
+    [
+      factory.createPropertyAccessExpression(
+        factory.createThis(),
+        factory.createIdentifier('methods'),
+      ),
+      factory.createStringLiteral(method.name),
+    ],
+  );
+}
+
 function copySchemaObject(so: Schema): ts.Expression {
   const declaredAppSchemaProps = Object.entries(so.declared).map(
     (sv: [string, DeclaredSchemaValueSpec]): ts.PropertyAssignment => {
@@ -653,6 +1081,7 @@ function copySchemaObject(so: Schema): ts.Expression {
             factory.createIdentifier('static'),
             sv[1].static ? factory.createTrue() : factory.createFalse(),
           ),
+          ...copyStructProperty(sv[1].struct),
         ]),
       );
     },
@@ -672,6 +1101,7 @@ function copySchemaObject(so: Schema): ts.Expression {
             factory.createIdentifier('max_keys'),
             factory.createNumericLiteral(sv[1].max_keys ? sv[1].max_keys : 0),
           ),
+          ...copyStructProperty(sv[1].struct),
         ]),
       );
     },
@@ -689,28 +1119,312 @@ function copySchemaObject(so: Schema): ts.Expression {
   ]);
 }
 
+// Creates the `struct` property of a schema value, if it has one
+function copyStructProperty(s: Struct | undefined): ts.PropertyAssignment[] {
+  if (s === undefined) return [];
+  return [
+    factory.createPropertyAssignment(
+      factory.createIdentifier('struct'),
+      factory.createObjectLiteralExpression([
+        objStrProperty('name', s.name),
+        factory.createPropertyAssignment(
+          factory.createIdentifier('elements'),
+          factory.createArrayLiteralExpression(
+            s.elements.map((elem) =>
+              factory.createArrayLiteralExpression([
+                factory.createStringLiteral(elem[0]),
+                factory.createStringLiteral(elem[1]),
+              ]),
+            ),
+          ),
+        ),
+      ]),
+    ),
+  ];
+}
+
+function tsTypeFromAvmType(t: AVMType, s?: Struct): ts.TypeNode {
+  if (s !== undefined) return factory.createTypeReferenceNode(s.name);
+  return avmType(t) === AVMType.uint64
+    ? factory.createKeywordTypeNode(ts.SyntaxKind.BigIntKeyword)
+    : UINT8_ARRAY_TYPE;
+}
+
+// Creates the object passing the `decodeBytes` of the struct classes
+// to use for fields holding structs
+function generateStateDecoders(so: Schema): ts.ObjectLiteralExpression {
+  const fields: [string, Struct][] = [];
+  for (const [field, sv] of [
+    ...Object.entries(so.declared),
+    ...Object.entries(so.reserved),
+  ]) {
+    if (sv.struct !== undefined) fields.push([field, sv.struct]);
+  }
+
+  return factory.createObjectLiteralExpression(
+    fields.map(([field, struct]) =>
+      factory.createPropertyAssignment(
+        field,
+        factory.createPropertyAccessExpression(
+          factory.createIdentifier(struct.name),
+          factory.createIdentifier('decodeBytes'),
+        ),
+      ),
+    ),
+  );
+}
+
+// Creates the type of the state object, with a property per field in the schema
+function generateStateType(so: Schema): ts.TypeLiteralNode {
+  const declared = Object.entries(so.declared).map(([field, sv]) =>
+    factory.createPropertySignature(
+      undefined,
+      field,
+      factory.createToken(ts.SyntaxKind.QuestionToken),
+      tsTypeFromAvmType(sv.type, sv.struct),
+    ),
+  );
+
+  const reserved = Object.entries(so.reserved).map(([field, sv]) =>
+    factory.createPropertySignature(
+      undefined,
+      field,
+      undefined,
+      factory.createTypeReferenceNode(RESERVED_STATE_IDENT, [
+        tsTypeFromAvmType(sv.type, sv.struct),
+      ]),
+    ),
+  );
+
+  return factory.createTypeLiteralNode([...declared, ...reserved]);
+}
+
+// Creates the methods on the AppClient class that return the global and local
+// state typed by the schema
+function generateStateAccessors(spec: AppSpec): ts.ClassElement[] {
+  const accessors: ts.ClassElement[] = [];
+
+  const schemas: [string, string, Schema | undefined][] = [
+    ['getGlobalState', 'getSchemaGlobalState', spec.schema.global],
+    ['getLocalState', 'getSchemaLocalState', spec.schema.local],
+  ];
+
+  for (const [name, clientMethod, so] of schemas) {
+    if (
+      so === undefined ||
+      Object.keys(so.declared).length + Object.keys(so.reserved).length === 0
+    )
+      continue;
+
+    const params: ts.ParameterDeclaration[] = [];
+    const callArgs: ts.Expression[] = [];
+    if (name === 'getLocalState') {
+      const address = factory.createIdentifier('address');
+      params.push(
+        factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          undefined,
+          address,
+          factory.createToken(ts.SyntaxKind.QuestionToken),
+          factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+        ),
+      );
+      callArgs.push(address);
+    }
+    const decoders = generateStateDecoders(so);
+    if (decoders.properties.length > 0) callArgs.push(decoders);
+
+    const stateType = generateStateType(so);
+
+    accessors.push(
+      factory.createMethodDeclaration(
+        undefined,
+        [factory.createModifier(ts.SyntaxKind.AsyncKeyword)],
+        undefined,
+        name,
+        undefined,
+        undefined,
+        params,
+        factory.createTypeReferenceNode(factory.createIdentifier('Promise'), [
+          stateType,
+        ]),
+        factory.createBlock(
+          [
+            factory.createReturnStatement(
+              factory.createAsExpression(
+                factory.createParenthesizedExpression(
+                  factory.createAwaitExpression(
+                    factory.createCallExpression(
+                      factory.createPropertyAccessExpression(
+                        factory.createThis(),
+                        factory.createIdentifier(clientMethod),
+                      ),
+                      undefined,
+                      callArgs,
+                    ),
+                  ),
+                ),
+                stateType,
+              ),
+            ),
+          ],
+          true,
+        ),
+      ),
+    );
+  }
+
+  return accessors;
+}
+
+// Creates the `boxes` property of the AppClient class, with a BoxMap
+// typed by the key and value types per box map in the schema
+function generateBoxMaps(spec: AppSpec): ts.ClassElement[] {
+  const boxes = Object.entries(spec.schema.boxes ?? {});
+  if (boxes.length === 0) return [];
+
+  const maps = boxes.map(([field, bs]) => {
+    const valueType =
+      bs.struct !== undefined
+        ? factory.createTypeReferenceNode(bs.struct.name)
+        : tsTypeFromAbiType(bs.value_type);
+
+    const args: ts.Expression[] = [factory.createThis(), copyBoxSpec(bs)];
+    if (bs.struct !== undefined)
+      args.push(
+        factory.createPropertyAccessExpression(
+          factory.createIdentifier(bs.struct.name),
+          factory.createIdentifier('decodeBytes'),
+        ),
+      );
+
+    return factory.createPropertyAssignment(
+      factory.createIdentifier(field),
+      factory.createNewExpression(
+        BOX_MAP_IDENT,
+        [tsTypeFromAbiType(bs.key_type), valueType],
+        args,
+      ),
+    );
+  });
+
+  return [
+    factory.createPropertyDeclaration(
+      undefined,
+      undefined,
+      factory.createIdentifier('boxes'),
+      undefined,
+      undefined,
+      factory.createObjectLiteralExpression(maps, true),
+    ),
+  ];
+}
+
+function copyBoxSpec(bs: BoxSpec): ts.Expression {
+  const props = [
+    objStrProperty('key_type', bs.key_type),
+    objStrProperty('value_type', bs.value_type),
+    objStrProperty('prefix', bs.prefix),
+    objStrProperty('desc', bs.desc),
+  ];
+  if (bs.max_value_size !== undefined)
+    props.push(
+      factory.createPropertyAssignment(
+        factory.createIdentifier('max_value_size'),
+        factory.createNumericLiteral(bs.max_value_size),
+      ),
+    );
+  props.push(...copyStructProperty(bs.struct));
+
+  return factory.createObjectLiteralExpression(props);
+}
+
 function generateStructTypes(spec: AppSpec): ts.Node[] {
-  const hints = spec.hints;
+  return specStructs(spec).map((s) => generateStruct(s));
+}
 
-  const structs: Record<string, ts.ClassDeclaration> = {};
+// Returns the structs used by the app, in hints, state and boxes
+function specStructs(spec: AppSpec): Struct[] {
+  const structs: Record<string, Struct> = {};
 
-  for (const k of Object.keys(hints)) {
-    const hint = hints[k];
+  for (const hint of Object.values(spec.hints)) {
+    for (const struct of Object.values(hint.structs ?? {}))
+      structs[struct.name] = struct;
+  }
 
-    if (hint !== undefined && hint.structs !== undefined) {
-      for (const sk of Object.keys(hint.structs)) {
-        const struct: Struct | undefined = hint.structs[sk];
-        if (struct !== undefined && !(struct.name in struct)) {
-          structs[struct.name] = generateStruct(struct);
-        }
-      }
+  // Structs held in state
+  for (const so of [spec.schema.global, spec.schema.local]) {
+    if (so === undefined) continue;
+    for (const sv of [
+      ...Object.values(so.declared),
+      ...Object.values(so.reserved),
+    ]) {
+      if (sv.struct !== undefined && !(sv.struct.name in structs))
+        structs[sv.struct.name] = sv.struct;
     }
   }
 
+  // Structs held in boxes
+  for (const bs of Object.values(spec.schema.boxes ?? {})) {
+    if (bs.struct !== undefined && !(bs.struct.name in structs))
+      structs[bs.struct.name] = bs.struct;
+  }
+
   return Object.values(structs);
 }
 
-function generateStruct(s: Struct): ts.ClassDeclaration {
+// Names exported by the client generated for the spec
+export interface ClientExports {
+  client: string;
+  structs: Struct[];
+  events: string[];
+}
+
+export function generatedExports(spec: AppSpec): ClientExports {
+  return {
+    client: spec.contract.name,
+    structs: specStructs(spec),
+    events: (spec.contract.events ?? []).map(eventClassName),
+  };
+}
+
+// Creates an index exporting the names passed from each client module,
+// keyed by module path
+export function generateIndex(modules: Record<string, string[]>): string {
+  const nodes = Object.entries(modules).map(([module, names]) =>
+    factory.createExportDeclaration(
+      undefined,
+      undefined,
+      false,
+      factory.createNamedExports(
+        names.map((name) =>
+          factory.createExportSpecifier(false, undefined, name),
+        ),
+      ),
+      factory.createStringLiteral(module),
+    ),
+  );
+
+  return ts
+    .createPrinter()
+    .printList(
+      ts.ListFormat.MultiLine,
+      factory.createNodeArray(nodes),
+      ts.createSourceFile(
+        'index',
+        '',
+        ts.ScriptTarget.ESNext,
+        true,
+        ts.ScriptKind.TS,
+      ),
+    );
+}
+
+function generateStruct(
+  s: Struct,
+  extraMembers: ts.ClassElement[] = [],
+): ts.ClassDeclaration {
   const members: ts.ClassElement[] = [];
   const tupleTypes: string[] = [];
   const tupleNames: string[] = [];
@@ -892,6 +1606,8 @@ function generateStruct(s: Struct): ts.ClassDeclaration {
     ),
   );
 
+  members.push(...extraMembers);
+
   return factory.createClassDeclaration(
     undefined,
     [factory.createModifier(ts.SyntaxKind.ExportKeyword)],
@@ -902,11 +1618,64 @@ function generateStruct(s: Struct): ts.ClassDeclaration {
   );
 }
 
+// Name of the class generated for an event, suffixed so it
+// can't collide with a struct of the same name
+function eventClassName(e: EventSpec): string {
+  return `${e.name}Event`;
+}
+
+// Creates a class per event, with the args as fields like a struct
+// and the event itself as a static property
+function generateEventTypes(spec: AppSpec): ts.ClassDeclaration[] {
+  const events = spec.contract.events ? spec.contract.events : [];
+  return events.map((e) => {
+    const argObjs = e.args.map((arg) =>
+      factory.createObjectLiteralExpression([
+        objStrProperty('type', arg.type),
+        ...(arg.name !== undefined ? [objStrProperty('name', arg.name)] : []),
+        objStrProperty('desc', arg.desc),
+      ]),
+    );
+
+    const eventProp = factory.createPropertyDeclaration(
+      undefined,
+      [factory.createModifier(ts.SyntaxKind.StaticKeyword)],
+      factory.createIdentifier('event'),
+      undefined,
+      ABI_EVENT_TYPE,
+      factory.createNewExpression(ABI_EVENT_IDENT, undefined, [
+        factory.createObjectLiteralExpression([
+          objStrProperty('name', e.name),
+          objStrProperty('desc', e.desc),
+          factory.createPropertyAssignment(
+            factory.createIdentifier('args'),
+            factory.createArrayLiteralExpression(argObjs),
+          ),
+        ]),
+      ]),
+    );
+
+    return generateStruct(
+      {
+        name: eventClassName(e),
+        elements: e.args.map((arg, idx) => [
+          arg.name !== undefined ? arg.name : `arg${idx}`,
+          arg.type,
+        ]),
+      },
+      [eventProp],
+    );
+  });
+}
+
 function generateContractProperties(spec: AppSpec): ts.PropertyDeclaration[] {
+  const name = spec.contract.name;
   const descr = spec.contract.description;
   const methods = spec.contract.methods;
   const source = spec.source;
   const schema = spec.schema;
+  const networks = spec.contract.networks;
+  const events = spec.contract.events;
 
   // create desc property
   const descrProp = factory.createPropertyDeclaration(
@@ -918,6 +1687,16 @@ function generateContractProperties(spec: AppSpec): ts.PropertyDeclaration[] {
     factory.createStringLiteral(descr ? descr : ''),
   );
 
+  // create name property
+  const nameProp = factory.createPropertyDeclaration(
+    undefined,
+    [factory.createModifier(ts.SyntaxKind.OverrideKeyword)],
+    factory.createIdentifier('name'),
+    undefined,
+    factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+    factory.createStringLiteral(name),
+  );
+
   // Create approval program property
   let approvalProp;
   if (source.approval !== undefined) {
@@ -970,6 +1749,28 @@ function generateContractProperties(spec: AppSpec): ts.PropertyDeclaration[] {
     );
   }
 
+  // Create networks property, keyed by genesis hash
+  const networksProp = factory.createPropertyDeclaration(
+    undefined,
+    [factory.createModifier(ts.SyntaxKind.OverrideKeyword)],
+    factory.createIdentifier('networks'),
+    undefined,
+    factory.createTypeReferenceNode('algosdk.ABIContractNetworks'),
+    factory.createObjectLiteralExpression(
+      Object.entries(networks ? networks : {}).map(([genesisHash, info]) =>
+        factory.createPropertyAssignment(
+          factory.createStringLiteral(genesisHash),
+          factory.createObjectLiteralExpression([
+            factory.createPropertyAssignment(
+              factory.createIdentifier('appID'),
+              factory.createNumericLiteral(info.appID),
+            ),
+          ]),
+        ),
+      ),
+    ),
+  );
+
   // Add methods
   const methodAssignments: ts.Expression[] = [];
   for (const meth of methods) {
@@ -1015,12 +1816,63 @@ function generateContractProperties(spec: AppSpec): ts.PropertyDeclaration[] {
     factory.createArrayLiteralExpression(methodAssignments, true),
   );
 
-  const props = [descrProp];
+  // Create receivers property from the hints, keyed by method then arg
+  let receiversProp;
+  const receivers = Object.entries(spec.hints).filter(
+    ([, hint]) =>
+      hint.receivers !== undefined && Object.keys(hint.receivers).length > 0,
+  );
+  if (receivers.length > 0) {
+    receiversProp = factory.createPropertyDeclaration(
+      undefined,
+      [factory.createModifier(ts.SyntaxKind.OverrideKeyword)],
+      factory.createIdentifier('receivers'),
+      undefined,
+      undefined,
+      factory.createObjectLiteralExpression(
+        receivers.map(([method, hint]) =>
+          factory.createPropertyAssignment(
+            factory.createIdentifier(method),
+            factory.createObjectLiteralExpression(
+              Object.entries(hint.receivers ?? {}).map(([arg, addr]) =>
+                objStrProperty(arg, addr),
+              ),
+            ),
+          ),
+        ),
+      ),
+    );
+  }
+
+  // Create events property from the generated event classes
+  let eventsProp;
+  if (events !== undefined && events.length > 0) {
+    eventsProp = factory.createPropertyDeclaration(
+      undefined,
+      [factory.createModifier(ts.SyntaxKind.OverrideKeyword)],
+      factory.createIdentifier('events'),
+      undefined,
+      factory.createArrayTypeNode(ABI_EVENT_TYPE),
+      factory.createArrayLiteralExpression(
+        events.map((e) =>
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier(eventClassName(e)),
+            factory.createIdentifier('event'),
+          ),
+        ),
+      ),
+    );
+  }
+
+  const props = [nameProp, descrProp];
   if (appSchemaProp !== undefined) props.push(appSchemaProp);
   if (acctSchemaProp !== undefined) props.push(acctSchemaProp);
   if (approvalProp !== undefined) props.push(approvalProp);
   if (clearProp !== undefined) props.push(clearProp);
+  props.push(networksProp);
   props.push(methodProps);
+  if (receiversProp !== undefined) props.push(receiversProp);
+  if (eventsProp !== undefined) props.push(eventsProp);
 
   return props;
 }
@@ -1,2 +1,39 @@
 export * from './appspec';
 export { generateApplicationClient } from './generate';
+export {
+  Target,
+  GeneratedFile,
+  RUNTIME_PATH,
+  compileClient,
+  bundleClient,
+} from './targets';
+export {
+  readAppSpec,
+  writeAppSpecNetworks,
+  AppSpecParts,
+  AppSpecPartPaths,
+  SPEC_PART_FILES,
+  mergeAppSpec,
+  splitAppSpec,
+  readAppSpecParts,
+  writeAppSpecParts,
+} from './spec_file';
+export {
+  CONFIG_FILE,
+  GenerateOptions,
+  GenerateEntry,
+  GenerateConfig,
+  readGenerateConfig,
+  findAppSpecs,
+  generateClientFiles,
+  generateClients,
+  staleFiles,
+  clientBaseName,
+} from './batch';
+export { WatchOptions, watchClients, diffAppSpecs } from './watch';
+export {
+  SpecError,
+  DEFAULT_ARGUMENT_SOURCES,
+  validateAppSpec,
+  formatSpecErrors,
+} from './validate';
@@ -0,0 +1,252 @@
+import type algosdk from 'algosdk';
+import type {
+  AppSpec,
+  CallConfig,
+  ContractSpec,
+  HintSpec,
+  SchemaSpec,
+} from './appspec';
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Reads an app spec from disk, wrapping a bare ARC-4 contract in an
+// otherwise empty app spec
+export function readAppSpec(specPath: string): AppSpec {
+  if (!fs.lstatSync(specPath).isFile()) {
+    throw Error('Path to spec must be a file');
+  }
+
+  const jsonObj = JSON.parse(fs.readFileSync(specPath).toString());
+  if (!('contract' in jsonObj)) {
+    return { hints: {}, source: {}, schema: {}, contract: jsonObj } as AppSpec;
+  }
+  return jsonObj as AppSpec;
+}
+
+// Merges the networks passed into the `networks` of the contract in the spec
+// file, so the app ids of newly created apps are picked up by clients
+// generated from it. The rest of the file is left as it was
+export function writeAppSpecNetworks(
+  specPath: string,
+  networks: algosdk.ABIContractNetworks,
+): void {
+  const text = fs.readFileSync(specPath).toString();
+  const jsonObj = JSON.parse(text);
+  const wrapped = 'contract' in jsonObj;
+  const contract = wrapped ? jsonObj.contract : jsonObj;
+  const merged = { ...contract.networks, ...networks };
+
+  let start = skipSpace(text, 0);
+  if (wrapped) {
+    const entry = jsonEntries(text, start).find((e) => e.key === 'contract');
+    if (entry === undefined) throw Error(`No contract found in ${specPath}`);
+    start = entry.valueStart;
+  }
+
+  const entries = jsonEntries(text, start);
+  const first = entries[0];
+  if (first === undefined) throw Error(`No contract found in ${specPath}`);
+
+  // Formatted like the first key of the contract
+  const keyPrefix = text.slice(start + 1, first.keyStart);
+  const keyIndent = keyPrefix.slice(keyPrefix.lastIndexOf('\n') + 1);
+  const colon = text.slice(first.keyEnd, first.valueStart);
+  const unit = /\n([ \t]+)\S/.exec(text)?.[1] ?? '';
+  const value = JSON.stringify(merged, undefined, unit)
+    .split('\n')
+    .join(`\n${keyIndent}`);
+
+  // Replaces the networks, or adds them after the last key
+  const existing = entries.find((e) => e.key === 'networks');
+  const last = entries[entries.length - 1] ?? first;
+  const second = entries[1];
+  const separator =
+    second !== undefined
+      ? text.slice(first.valueEnd, second.keyStart)
+      : `,${keyPrefix}`;
+  const updated =
+    existing !== undefined
+      ? text.slice(0, existing.valueStart) +
+        value +
+        text.slice(existing.valueEnd)
+      : text.slice(0, last.valueEnd) +
+        `${separator}"networks"${colon}${value}` +
+        text.slice(last.valueEnd);
+
+  fs.writeFileSync(specPath, updated);
+}
+
+// Position of a key and its value in the text of a JSON object
+interface JSONEntry {
+  key: string;
+  keyStart: number;
+  keyEnd: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+// Returns the entries of the JSON object starting at `start` in the text
+function jsonEntries(text: string, start: number): JSONEntry[] {
+  const entries: JSONEntry[] = [];
+  for (let i = start + 1; ; ) {
+    i = skipSpace(text, i);
+    if (text[i] === '}' || i >= text.length) return entries;
+    if (text[i] === ',') {
+      i++;
+      continue;
+    }
+
+    const keyStart = i;
+    const keyEnd = skipValue(text, keyStart);
+    // Past the colon
+    const valueStart = skipSpace(text, skipSpace(text, keyEnd) + 1);
+    const valueEnd = skipValue(text, valueStart);
+    entries.push({
+      key: JSON.parse(text.slice(keyStart, keyEnd)),
+      keyStart,
+      keyEnd,
+      valueStart,
+      valueEnd,
+    });
+    i = valueEnd;
+  }
+}
+
+// Returns the position just past the JSON value starting at `start`
+function skipValue(text: string, start: number): number {
+  const c = text[start];
+  if (c === '"') {
+    let i = start + 1;
+    while (i < text.length && text[i] !== '"') i += text[i] === '\\' ? 2 : 1;
+    return i + 1;
+  }
+
+  if (c === '{' || c === '[') {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '"') i = skipValue(text, i) - 1;
+      else if (ch === '{' || ch === '[') depth++;
+      else if ((ch === '}' || ch === ']') && --depth === 0) return i + 1;
+    }
+    return text.length;
+  }
+
+  // Numbers, true, false and null
+  const literal = /^[^,\]}\s]*/.exec(text.slice(start));
+  return start + (literal?.[0] ?? '').length;
+}
+
+function skipSpace(text: string, start: number): number {
+  let i = start;
+  while (i < text.length && /\s/.test(text[i] as string)) i++;
+  return i;
+}
+
+// The parts of an app spec besides the contract, as kept in their own files
+// by tools other than beaker-pyteal. Programs are TEAL source, not base64
+export interface AppSpecParts {
+  approval?: string;
+  clear?: string;
+  schema?: SchemaSpec;
+  hints?: HintSpec;
+  bare_call_config?: CallConfig;
+  // App ids of the contract keyed by genesis hash
+  networks?: algosdk.ABIContractNetworks;
+}
+
+// Names of the files written by writeAppSpecParts
+export const SPEC_PART_FILES = {
+  contract: 'contract.json',
+  approval: 'approval.teal',
+  clear: 'clear.teal',
+  schema: 'schema.json',
+  hints: 'hints.json',
+  bare_call_config: 'bare_call_config.json',
+  networks: 'networks.json',
+};
+
+// Fills in the spec with the parts passed, replacing any it already has
+export function mergeAppSpec(spec: AppSpec, parts: AppSpecParts): AppSpec {
+  const merged: AppSpec = {
+    ...spec,
+    source: { ...spec.source },
+    ...(parts.networks !== undefined
+      ? {
+          // Specs are read from JSON, so the contract is a plain object
+          contract: {
+            ...spec.contract,
+            networks: parts.networks,
+          } as ContractSpec,
+        }
+      : {}),
+    ...(parts.schema !== undefined ? { schema: parts.schema } : {}),
+    ...(parts.hints !== undefined ? { hints: parts.hints } : {}),
+    ...(parts.bare_call_config !== undefined
+      ? { bare_call_config: parts.bare_call_config }
+      : {}),
+  };
+  if (parts.approval !== undefined)
+    merged.source.approval = Buffer.from(parts.approval).toString('base64');
+  if (parts.clear !== undefined)
+    merged.source.clear = Buffer.from(parts.clear).toString('base64');
+  return merged;
+}
+
+// Splits the spec into the bare ARC-4 contract and the other parts, leaving
+// out the programs and networks if it has none
+export function splitAppSpec(
+  spec: AppSpec,
+): { contract: Omit<ContractSpec, 'networks'> } & AppSpecParts {
+  const { approval, clear } = spec.source;
+  const { networks, ...contract } = spec.contract;
+  return {
+    contract: contract as Omit<ContractSpec, 'networks'>,
+    ...(approval !== undefined
+      ? { approval: Buffer.from(approval, 'base64').toString() }
+      : {}),
+    ...(clear !== undefined
+      ? { clear: Buffer.from(clear, 'base64').toString() }
+      : {}),
+    schema: spec.schema,
+    hints: spec.hints,
+    ...(spec.bare_call_config !== undefined
+      ? { bare_call_config: spec.bare_call_config }
+      : {}),
+    ...(networks !== undefined ? { networks: networks } : {}),
+  };
+}
+
+// Paths of the files to read each part from, programs are read as text and
+// the rest as JSON
+export type AppSpecPartPaths = Partial<Record<keyof AppSpecParts, string>>;
+
+export function readAppSpecParts(paths: AppSpecPartPaths): AppSpecParts {
+  const parts: Record<string, unknown> = {};
+  for (const [part, partPath] of Object.entries(paths)) {
+    if (partPath === undefined) continue;
+    const contents = fs.readFileSync(partPath).toString();
+    parts[part] =
+      part === 'approval' || part === 'clear' ? contents : JSON.parse(contents);
+  }
+  return parts as AppSpecParts;
+}
+
+// Writes each part of the spec to its file in SPEC_PART_FILES, returning
+// the paths written
+export function writeAppSpecParts(dir: string, spec: AppSpec): string[] {
+  const written: string[] = [];
+  for (const [part, value] of Object.entries(splitAppSpec(spec))) {
+    const partPath = path.join(
+      dir,
+      SPEC_PART_FILES[part as keyof typeof SPEC_PART_FILES],
+    );
+    fs.writeFileSync(
+      partPath,
+      typeof value === 'string' ? value : JSON.stringify(value, undefined, 4),
+    );
+    written.push(partPath);
+  }
+  return written;
+}
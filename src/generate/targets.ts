@@ -0,0 +1,139 @@
+import * as path from 'path';
+import ts from 'typescript';
+
+// Flavors a client can be written in
+export enum Target {
+  TS = 'ts',
+  // JavaScript with ES module syntax, for bundlers
+  JS = 'js',
+  DTS = 'dts',
+  ESM = 'esm',
+  CJS = 'cjs',
+}
+
+export interface GeneratedFile {
+  fileName: string;
+  contents: string;
+}
+
+// Extensions of the code and declaration files written for each target
+const EXTENSIONS: Record<Target, [string | undefined, string | undefined]> = {
+  [Target.TS]: ['.ts', undefined],
+  [Target.JS]: ['.js', '.d.ts'],
+  [Target.DTS]: [undefined, '.d.ts'],
+  [Target.ESM]: ['.mjs', '.d.mts'],
+  [Target.CJS]: ['.cjs', '.d.cts'],
+};
+
+// Entry point of the runtime inlined into standalone clients, resolved from
+// the source or the compiled package
+export const RUNTIME_PATH = path.resolve(__dirname, '..', 'runtime');
+
+// Compiles the TypeScript source of a client to the target, resolving its
+// imports from the directory it is written to. Throws if it does not compile
+export function compileClient(
+  source: string,
+  baseName: string,
+  outDir: string,
+  target: Target,
+): GeneratedFile[] {
+  const [codeExt, declExt] = EXTENSIONS[target];
+  if (target === Target.TS)
+    return [{ fileName: baseName + codeExt, contents: source }];
+
+  const fileName = path.resolve(outDir, baseName + '.ts');
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module:
+      target === Target.CJS ? ts.ModuleKind.CommonJS : ts.ModuleKind.ES2020,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    esModuleInterop: true,
+    strict: true,
+    skipLibCheck: true,
+    declaration: true,
+    emitDeclarationOnly: codeExt === undefined,
+  };
+
+  // The client is only held in memory, everything it imports is read from disk
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists, readFile } = host;
+  host.getSourceFile = (
+    name,
+    languageVersion,
+    ...rest
+  ): ts.SourceFile | undefined =>
+    name === fileName
+      ? ts.createSourceFile(name, source, languageVersion)
+      : getSourceFile(name, languageVersion, ...rest);
+  host.fileExists = (name): boolean => name === fileName || fileExists(name);
+  host.readFile = (name): string | undefined =>
+    name === fileName ? source : readFile(name);
+
+  const outputs: Record<string, string> = {};
+  host.writeFile = (name, text): void => {
+    outputs[name] = text;
+  };
+
+  const program = ts.createProgram([fileName], options, host);
+  const sourceFile = program.getSourceFile(fileName);
+  const diagnostics = ts.getPreEmitDiagnostics(program, sourceFile);
+  if (diagnostics.length > 0)
+    throw new Error(
+      `generated client does not compile:\n${ts.formatDiagnostics(
+        diagnostics,
+        host,
+      )}`,
+    );
+  program.emit(sourceFile);
+
+  const files: GeneratedFile[] = [];
+  const base = fileName.slice(0, -'.ts'.length);
+  const code = outputs[base + '.js'];
+  if (codeExt !== undefined && code !== undefined)
+    files.push({ fileName: baseName + codeExt, contents: code });
+  const decl = outputs[base + '.d.ts'];
+  if (declExt !== undefined && decl !== undefined)
+    files.push({ fileName: baseName + declExt, contents: decl });
+  return files;
+}
+
+// Bundles the TypeScript source of a client generated to import the runtime
+// from RUNTIME_PATH into a single file with no dependency on beaker-ts. The
+// client still imports algosdk, like any app using it would
+export async function bundleClient(
+  source: string,
+  baseName: string,
+  target: Target,
+): Promise<GeneratedFile[]> {
+  const [codeExt] = EXTENSIONS[target];
+  if (codeExt === undefined || target === Target.TS)
+    throw new Error(`standalone clients can not be written as ${target}`);
+
+  // esbuild is an optional peer dependency, only needed for standalone clients
+  let esbuild: typeof import('esbuild');
+  try {
+    esbuild = await import('esbuild');
+  } catch (e) {
+    throw new Error(
+      'standalone clients need esbuild, install it with `npm install esbuild`',
+    );
+  }
+  const result = await esbuild.build({
+    stdin: {
+      contents: source,
+      loader: 'ts',
+      resolveDir: path.dirname(RUNTIME_PATH),
+      sourcefile: baseName + '.ts',
+    },
+    bundle: true,
+    write: false,
+    format: target === Target.CJS ? 'cjs' : 'esm',
+    platform: 'node',
+    target: 'es2020',
+    external: ['algosdk'],
+  });
+
+  const code = result.outputFiles[0];
+  if (code === undefined) throw new Error('no output from bundling client');
+  return [{ fileName: baseName + codeExt, contents: code.text }];
+}
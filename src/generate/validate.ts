@@ -0,0 +1,460 @@
+import algosdk from 'algosdk';
+import { AVMType } from './appspec';
+
+// A problem with an app spec, at the JSON path of the offending value
+export interface SpecError {
+  path: string;
+  message: string;
+}
+
+// Sources a default argument may be read from, resolved by the client
+export const DEFAULT_ARGUMENT_SOURCES = [
+  'constant',
+  'global-state',
+  'local-state',
+  'abi-method',
+];
+
+const CALL_CONFIG_KEYS = [
+  'no_op',
+  'opt_in',
+  'close_out',
+  'update_application',
+  'delete_application',
+];
+const CALL_CONFIG_VALUES = ['NEVER', 'CALL', 'CREATE', 'ALL'];
+
+// Checks the spec has the shape of an AppSpec and is consistent with itself,
+// so a client can be generated from it. Returns every problem found rather
+// than stopping at the first
+export function validateAppSpec(spec: unknown): SpecError[] {
+  const errors: SpecError[] = [];
+  const fail = (path: string, message: string): void => {
+    errors.push({ path, message });
+  };
+
+  if (!isObject(spec)) {
+    fail('$', 'expected an object');
+    return errors;
+  }
+
+  const methods = validateContract(spec['contract'], '$.contract', fail);
+  validateSource(spec['source'], '$.source', fail);
+  const globalKeys = validateSchema(spec['schema'], '$.schema', fail);
+  validateHints(spec['hints'], '$.hints', methods, globalKeys, fail);
+  if (spec['bare_call_config'] !== undefined)
+    validateCallConfig(spec['bare_call_config'], '$.bare_call_config', fail);
+
+  return errors;
+}
+
+// One line per error, for printing
+export function formatSpecErrors(errors: SpecError[]): string {
+  return errors.map((e) => `  ${e.path}: ${e.message}`).join('\n');
+}
+
+type Fail = (path: string, message: string) => void;
+
+// Arg and return types of a method, keyed by arg name
+interface MethodTypes {
+  args: Record<string, string>;
+  returns: string;
+}
+
+// Returns the types of the methods that could be read, keyed by name
+function validateContract(
+  contract: unknown,
+  path: string,
+  fail: Fail,
+): Record<string, MethodTypes> {
+  const methods: Record<string, MethodTypes> = {};
+  if (!isObject(contract)) {
+    fail(path, 'expected an object');
+    return methods;
+  }
+
+  if (typeof contract['name'] !== 'string')
+    fail(`${path}.name`, 'expected a string');
+
+  const methodList = contract['methods'];
+  if (!Array.isArray(methodList)) {
+    fail(`${path}.methods`, 'expected an array');
+    return methods;
+  }
+
+  methodList.forEach((method: unknown, idx) => {
+    const mpath = `${path}.methods[${idx}]`;
+    if (!isObject(method)) return fail(mpath, 'expected an object');
+
+    const name = method['name'];
+    if (typeof name !== 'string')
+      return fail(`${mpath}.name`, 'expected a string');
+
+    const types: MethodTypes = { args: {}, returns: 'void' };
+    const args = method['args'];
+    if (!Array.isArray(args)) fail(`${mpath}.args`, 'expected an array');
+    else
+      args.forEach((arg: unknown, argIdx) => {
+        const apath = `${mpath}.args[${argIdx}]`;
+        if (!isObject(arg)) return fail(apath, 'expected an object');
+        const type = validateArgType(arg['type'], `${apath}.type`, fail);
+        if (typeof arg['name'] === 'string' && type !== undefined)
+          types.args[arg['name']] = type;
+      });
+
+    const returns = method['returns'];
+    if (!isObject(returns)) fail(`${mpath}.returns`, 'expected an object');
+    else if (returns['type'] !== 'void') {
+      const type = validateABIType(
+        returns['type'],
+        `${mpath}.returns.type`,
+        fail,
+      );
+      if (type !== undefined) types.returns = type;
+    }
+
+    methods[name] = types;
+  });
+
+  const events = contract['events'];
+  if (events !== undefined) {
+    if (!Array.isArray(events)) fail(`${path}.events`, 'expected an array');
+    else
+      events.forEach((event: unknown, idx) => {
+        const epath = `${path}.events[${idx}]`;
+        if (!isObject(event)) return fail(epath, 'expected an object');
+        if (typeof event['name'] !== 'string')
+          fail(`${epath}.name`, 'expected a string');
+        const args = event['args'];
+        if (!Array.isArray(args))
+          return fail(`${epath}.args`, 'expected an array');
+        args.forEach((arg: unknown, argIdx) => {
+          const apath = `${epath}.args[${argIdx}]`;
+          if (!isObject(arg)) return fail(apath, 'expected an object');
+          validateABIType(arg['type'], `${apath}.type`, fail);
+        });
+      });
+  }
+
+  return methods;
+}
+
+// Programs are optional, since a bare ARC-4 contract has none, but must be
+// base64 encoded TEAL if set
+function validateSource(source: unknown, path: string, fail: Fail): void {
+  if (!isObject(source)) return fail(path, 'expected an object');
+
+  for (const program of ['approval', 'clear']) {
+    const value = source[program];
+    if (value === undefined) continue;
+
+    const ppath = `${path}.${program}`;
+    if (typeof value !== 'string') fail(ppath, 'expected a string');
+    else if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value) || value.length % 4 !== 0)
+      fail(ppath, 'expected base64');
+    else if (
+      !Buffer.from(value, 'base64').toString().startsWith('#pragma version')
+    )
+      fail(ppath, 'expected TEAL starting with #pragma version');
+  }
+}
+
+// Returns the keys of the declared global state values, unless there is no
+// global schema to check default arguments against
+function validateSchema(
+  schema: unknown,
+  path: string,
+  fail: Fail,
+): string[] | undefined {
+  if (!isObject(schema)) {
+    fail(path, 'expected an object');
+    return undefined;
+  }
+
+  const keys: Record<string, string[]> = {};
+  for (const scope of ['global', 'local']) {
+    const spath = `${path}.${scope}`;
+    const s = schema[scope];
+    keys[scope] = [];
+    if (s === undefined) continue;
+    if (!isObject(s)) {
+      fail(spath, 'expected an object');
+      continue;
+    }
+
+    const declared = s['declared'];
+    if (!isObject(declared)) fail(`${spath}.declared`, 'expected an object');
+    else
+      for (const [field, value] of Object.entries(declared)) {
+        const vpath = `${spath}.declared${member(field)}`;
+        if (!isObject(value)) {
+          fail(vpath, 'expected an object');
+          continue;
+        }
+        validateAVMType(value['type'], `${vpath}.type`, fail);
+
+        const key = value['key'];
+        if (typeof key !== 'string') fail(`${vpath}.key`, 'expected a string');
+        else if (keys[scope]?.includes(key))
+          fail(`${vpath}.key`, `duplicate ${scope} state key ${key}`);
+        else keys[scope]?.push(key);
+
+        if (value['struct'] !== undefined)
+          validateStruct(value['struct'], `${vpath}.struct`, undefined, fail);
+      }
+
+    const reserved = s['reserved'];
+    if (!isObject(reserved)) fail(`${spath}.reserved`, 'expected an object');
+    else
+      for (const [field, value] of Object.entries(reserved)) {
+        const vpath = `${spath}.reserved${member(field)}`;
+        if (!isObject(value)) {
+          fail(vpath, 'expected an object');
+          continue;
+        }
+        validateAVMType(value['type'], `${vpath}.type`, fail);
+        if (typeof value['max_keys'] !== 'number')
+          fail(`${vpath}.max_keys`, 'expected a number');
+        if (value['struct'] !== undefined)
+          validateStruct(value['struct'], `${vpath}.struct`, undefined, fail);
+      }
+  }
+
+  const boxes = schema['boxes'];
+  if (boxes !== undefined) {
+    if (!isObject(boxes)) fail(`${path}.boxes`, 'expected an object');
+    else
+      for (const [field, box] of Object.entries(boxes)) {
+        const bpath = `${path}.boxes${member(field)}`;
+        if (!isObject(box)) {
+          fail(bpath, 'expected an object');
+          continue;
+        }
+        validateABIType(box['key_type'], `${bpath}.key_type`, fail);
+        const valueType = validateABIType(
+          box['value_type'],
+          `${bpath}.value_type`,
+          fail,
+        );
+        if (box['struct'] !== undefined)
+          validateStruct(box['struct'], `${bpath}.struct`, valueType, fail);
+      }
+  }
+
+  return schema['global'] !== undefined ? keys['global'] : undefined;
+}
+
+function validateHints(
+  hints: unknown,
+  path: string,
+  methods: Record<string, MethodTypes>,
+  globalKeys: string[] | undefined,
+  fail: Fail,
+): void {
+  if (!isObject(hints)) return fail(path, 'expected an object');
+
+  for (const [name, hint] of Object.entries(hints)) {
+    const hpath = `${path}${member(name)}`;
+    if (!isObject(hint)) {
+      fail(hpath, 'expected an object');
+      continue;
+    }
+    const method = methods[name];
+    if (method === undefined) {
+      fail(hpath, `no method named ${name}`);
+      continue;
+    }
+
+    // Structs annotate an arg, or the return value as `output`
+    const structs = hint['structs'];
+    if (structs !== undefined) {
+      if (!isObject(structs)) fail(`${hpath}.structs`, 'expected an object');
+      else
+        for (const [arg, struct] of Object.entries(structs)) {
+          const spath = `${hpath}.structs${member(arg)}`;
+          const type = arg === 'output' ? method.returns : method.args[arg];
+          if (type === undefined)
+            fail(spath, `${name} has no arg named ${arg}`);
+          else validateStruct(struct, spath, type, fail);
+        }
+    }
+
+    const defaults = hint['default_arguments'];
+    if (defaults !== undefined) {
+      if (!isObject(defaults))
+        fail(`${hpath}.default_arguments`, 'expected an object');
+      else
+        for (const [arg, defaultArg] of Object.entries(defaults)) {
+          const dpath = `${hpath}.default_arguments${member(arg)}`;
+          if (!(arg in method.args))
+            fail(dpath, `${name} has no arg named ${arg}`);
+          else if (!isObject(defaultArg)) fail(dpath, 'expected an object');
+          else
+            validateDefaultArgument(
+              defaultArg,
+              dpath,
+              methods,
+              globalKeys,
+              fail,
+            );
+        }
+    }
+
+    const receivers = hint['receivers'];
+    if (receivers !== undefined) {
+      if (!isObject(receivers))
+        fail(`${hpath}.receivers`, 'expected an object');
+      else
+        for (const [arg, receiver] of Object.entries(receivers)) {
+          const rpath = `${hpath}.receivers${member(arg)}`;
+          if (!(arg in method.args))
+            fail(rpath, `${name} has no arg named ${arg}`);
+          else if (
+            typeof receiver !== 'string' ||
+            !algosdk.isValidAddress(receiver)
+          )
+            fail(rpath, 'expected an address');
+        }
+    }
+
+    if (
+      hint['read_only'] !== undefined &&
+      typeof hint['read_only'] !== 'boolean'
+    )
+      fail(`${hpath}.read_only`, 'expected a boolean');
+    if (hint['call_config'] !== undefined)
+      validateCallConfig(hint['call_config'], `${hpath}.call_config`, fail);
+  }
+}
+
+function validateDefaultArgument(
+  defaultArg: Record<string, unknown>,
+  path: string,
+  methods: Record<string, MethodTypes>,
+  globalKeys: string[] | undefined,
+  fail: Fail,
+): void {
+  const source = defaultArg['source'];
+  const data = defaultArg['data'];
+  if (typeof source !== 'string' || !DEFAULT_ARGUMENT_SOURCES.includes(source))
+    return fail(
+      `${path}.source`,
+      `expected one of ${DEFAULT_ARGUMENT_SOURCES.join(', ')}`,
+    );
+
+  if (source === 'constant') {
+    if (!['string', 'number', 'bigint'].includes(typeof data))
+      fail(`${path}.data`, 'expected a string or number');
+  } else if (typeof data !== 'string')
+    fail(`${path}.data`, 'expected a string');
+  else if (
+    source === 'global-state' &&
+    globalKeys !== undefined &&
+    !globalKeys.includes(data)
+  )
+    fail(`${path}.data`, `no global state value with key ${data}`);
+  else if (source === 'abi-method' && !(data in methods))
+    fail(`${path}.data`, `no method named ${data}`);
+}
+
+// Checks the struct, and that its elements make up the ABI type it
+// annotates if there is one
+function validateStruct(
+  struct: unknown,
+  path: string,
+  type: string | undefined,
+  fail: Fail,
+): void {
+  if (!isObject(struct)) return fail(path, 'expected an object');
+  if (typeof struct['name'] !== 'string')
+    fail(`${path}.name`, 'expected a string');
+
+  const elements = struct['elements'];
+  if (!Array.isArray(elements))
+    return fail(`${path}.elements`, 'expected an array');
+
+  const elementTypes: string[] = [];
+  elements.forEach((element: unknown, idx) => {
+    const epath = `${path}.elements[${idx}]`;
+    if (
+      !Array.isArray(element) ||
+      element.length !== 2 ||
+      typeof element[0] !== 'string'
+    )
+      return fail(epath, 'expected a [name, type] pair');
+    const elementType = validateABIType(element[1], `${epath}[1]`, fail);
+    if (elementType !== undefined) elementTypes.push(elementType);
+  });
+  if (type === undefined || elementTypes.length !== elements.length) return;
+
+  const tuple = `(${elementTypes.join(',')})`;
+  if (tuple !== type)
+    fail(
+      path,
+      `elements of ${String(struct['name'])} make up ${tuple}, not ${type}`,
+    );
+}
+
+function validateCallConfig(config: unknown, path: string, fail: Fail): void {
+  if (!isObject(config)) return fail(path, 'expected an object');
+  for (const [oc, value] of Object.entries(config)) {
+    const cpath = `${path}${member(oc)}`;
+    if (!CALL_CONFIG_KEYS.includes(oc))
+      fail(cpath, `expected one of ${CALL_CONFIG_KEYS.join(', ')}`);
+    else if (typeof value !== 'string' || !CALL_CONFIG_VALUES.includes(value))
+      fail(cpath, `expected one of ${CALL_CONFIG_VALUES.join(', ')}`);
+  }
+}
+
+// AVM types are written by name or by value
+function validateAVMType(type: unknown, path: string, fail: Fail): void {
+  if (
+    !(typeof type === 'string' && type in AVMType && isNaN(Number(type))) &&
+    !(typeof type === 'number' && AVMType[type] !== undefined)
+  )
+    fail(path, 'expected uint64 or bytes');
+}
+
+// Arg types may also be transaction or reference types, which are not
+// ABI types
+function validateArgType(
+  type: unknown,
+  path: string,
+  fail: Fail,
+): string | undefined {
+  if (
+    typeof type === 'string' &&
+    (algosdk.abiTypeIsTransaction(type) || algosdk.abiTypeIsReference(type))
+  )
+    return type;
+  return validateABIType(type, path, fail);
+}
+
+// Returns the type in its canonical form if it is a valid ABI type
+function validateABIType(
+  type: unknown,
+  path: string,
+  fail: Fail,
+): string | undefined {
+  if (typeof type !== 'string') {
+    fail(path, 'expected a string');
+    return undefined;
+  }
+  try {
+    return algosdk.ABIType.from(type).toString();
+  } catch (e) {
+    fail(path, `invalid ABI type ${type}: ${(e as Error).message}`);
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Appends the key to a JSON path, quoting it unless it is an identifier
+function member(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key)
+    ? `.${key}`
+    : `[${JSON.stringify(key)}]`;
+}
@@ -0,0 +1,170 @@
+import type { AppSpec } from './appspec';
+import {
+  GenerateEntry,
+  findAppSpecs,
+  generateClients,
+  staleFiles,
+} from './batch';
+import { generatedExports } from './generate';
+import { readAppSpec } from './spec_file';
+
+import * as fs from 'fs';
+
+export interface WatchOptions {
+  // How often the spec files are checked for changes, in milliseconds
+  interval?: number;
+  // How long to wait after the last change before regenerating, so a tool
+  // writing the spec in several steps triggers a single regeneration
+  debounce?: number;
+  log?: (line: string) => void;
+}
+
+// Generates the clients of the entries, then regenerates them whenever one
+// of their specs changes, is added or is removed. Specs that can not be read,
+// like ones still being written, are waited on until they can. Returns a
+// function that stops watching
+export function watchClients(
+  entries: GenerateEntry[],
+  opts: WatchOptions = {},
+): () => void {
+  const log = opts.log ?? ((): void => undefined);
+  const debounce = opts.debounce ?? 300;
+
+  let versions: Record<string, string> = {};
+  // Unset until the first generation, which has nothing to compare against
+  let specs: Record<string, AppSpec> | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Regenerations run one after another, never side by side
+  let queue = Promise.resolve();
+
+  const regenerate = async (): Promise<void> => {
+    const current: Record<string, AppSpec> = {};
+    for (const specPath of Object.keys(versions)) {
+      try {
+        current[specPath] = readAppSpec(specPath);
+      } catch (e) {
+        log(`Waiting on ${specPath}: ${(e as Error).message}`);
+        return;
+      }
+    }
+
+    for (const specPath of Object.keys({ ...specs, ...current })) {
+      if (specs === undefined) break;
+      const before = specs[specPath];
+      const after = current[specPath];
+      if (before === undefined) log(`Added ${specPath}`);
+      else if (after === undefined) log(`Removed ${specPath}`);
+      else {
+        const changes = diffAppSpecs(before, after);
+        if (changes.length > 0)
+          log(
+            `Changed ${specPath}:\n${changes.map((c) => `  ${c}`).join('\n')}`,
+          );
+      }
+    }
+    specs = current;
+
+    try {
+      const files = await generateClients(entries);
+      const stale = staleFiles(files);
+      for (const file of files) {
+        if (!stale.includes(file.fileName)) continue;
+        fs.writeFileSync(file.fileName, file.contents);
+        log(`Wrote client to: ${file.fileName}`);
+      }
+      if (stale.length === 0) log('Generated clients are up to date');
+    } catch (e) {
+      log(`Failed to generate clients: ${(e as Error).message}`);
+    }
+  };
+
+  const poll = (): void => {
+    const found = specVersions(entries);
+    const paths = new Set([...Object.keys(versions), ...Object.keys(found)]);
+    const changed = [...paths].some((p) => versions[p] !== found[p]);
+    versions = found;
+    if (!changed) return;
+
+    if (timer !== undefined) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      queue = queue.then(regenerate);
+    }, debounce);
+  };
+
+  versions = specVersions(entries);
+  queue = queue.then(regenerate);
+  const interval = setInterval(poll, opts.interval ?? 250);
+
+  return (): void => {
+    clearInterval(interval);
+    if (timer !== undefined) clearTimeout(timer);
+  };
+}
+
+// Summarizes the changes to the methods and structs between two versions of
+// a spec, one line per method or struct added, removed or changed
+export function diffAppSpecs(before: AppSpec, after: AppSpec): string[] {
+  const changes: string[] = [];
+  const diff = (
+    kind: string,
+    a: Record<string, string>,
+    b: Record<string, string>,
+  ): void => {
+    for (const [name, desc] of Object.entries(a)) {
+      const next = b[name];
+      if (next === undefined) changes.push(`- ${kind} ${desc}`);
+      else if (next !== desc) changes.push(`~ ${kind} ${desc} -> ${next}`);
+    }
+    for (const [name, desc] of Object.entries(b))
+      if (!(name in a)) changes.push(`+ ${kind} ${desc}`);
+  };
+
+  diff('method', methodSignatures(before), methodSignatures(after));
+  diff('struct', structShapes(before), structShapes(after));
+  return changes;
+}
+
+function methodSignatures(spec: AppSpec): Record<string, string> {
+  return Object.fromEntries(
+    // Methods are read from JSON, so their types may be strings
+    spec.contract.methods.map((m) => [
+      m.name,
+      `${m.name}(${m.args
+        .map((a) => a.type.toString())
+        .join(',')})${m.returns.type.toString()}`,
+    ]),
+  );
+}
+
+function structShapes(spec: AppSpec): Record<string, string> {
+  return Object.fromEntries(
+    generatedExports(spec).structs.map((s) => [
+      s.name,
+      `${s.name} {${s.elements.map(([n, t]) => `${n}: ${t}`).join(', ')}}`,
+    ]),
+  );
+}
+
+// Identifies the version of each spec file by its modification time and
+// size, ignoring entries whose specs can not be found at the moment
+function specVersions(entries: GenerateEntry[]): Record<string, string> {
+  const found: Record<string, string> = {};
+  for (const entry of entries) {
+    let specPaths: string[];
+    try {
+      specPaths = findAppSpecs(entry.specs);
+    } catch {
+      continue;
+    }
+    for (const specPath of specPaths) {
+      try {
+        const stat = fs.statSync(specPath);
+        found[specPath] = `${stat.mtimeMs}:${stat.size}`;
+      } catch {
+        continue;
+      }
+    }
+  }
+  return found;
+}
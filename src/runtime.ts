@@ -0,0 +1,4 @@
+// What generated clients use at runtime, inlined into standalone clients.
+// Leaves out the generator so the TypeScript compiler is not bundled
+export * from './application_client';
+export * from './generate/appspec';
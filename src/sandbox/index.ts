@@ -1 +1,7 @@
-export { getAccounts } from './accounts';
+export {
+  getAccounts,
+  KMDConfig,
+  DefaultKMDConfig,
+  SandboxAccount,
+} from './accounts';
+export { KmdSigner } from './kmd';
@@ -0,0 +1,179 @@
+import algosdk from 'algosdk';
+import { DefaultKMDConfig, KMDConfig } from './accounts';
+
+// Wallet handles expire after a minute unless renewed, so renew
+// them well before that
+const HANDLE_RENEW_MS = 30 * 1000;
+
+// Signs with the keys of a KMD wallet without exporting them, the
+// transactions are sent to KMD to be signed instead
+export class KmdSigner {
+  kmd: algosdk.Kmd;
+  config: KMDConfig;
+
+  private walletId: string | undefined;
+  private handle: string | undefined;
+  private renewedAt = 0;
+
+  constructor(config: KMDConfig = DefaultKMDConfig) {
+    this.config = config;
+    this.kmd = new algosdk.Kmd(config.token, config.host, config.port);
+  }
+
+  // Creates the wallet named in the config if there is none
+  async createWallet(): Promise<void> {
+    if ((await this.findWallet()) !== undefined) return;
+    const resp = await this.kmd.createWallet(
+      this.config.wallet,
+      this.config.password,
+    );
+    this.walletId = resp['wallet']['id'];
+  }
+
+  async listAccounts(): Promise<string[]> {
+    const resp = await this.kmd.listKeys(await this.getHandle());
+    return resp['addresses'] ?? [];
+  }
+
+  // Generates a new key in the wallet, returning its address
+  async createAccount(): Promise<string> {
+    const resp = await this.kmd.generateKey(await this.getHandle());
+    return resp['address'];
+  }
+
+  // Imports the secret key into the wallet, returning its address
+  async importAccount(sk: Uint8Array): Promise<string> {
+    const resp = await this.kmd.importKey(await this.getHandle(), sk);
+    return resp['address'];
+  }
+
+  // Imports the multisig into the wallet so transactions sent from it
+  // can be signed with the keys of its subsigners held by the wallet
+  async importMultisig(params: algosdk.MultisigMetadata): Promise<string> {
+    const resp = await this.kmd.importMultisig(
+      await this.getHandle(),
+      params.version,
+      params.threshold,
+      params.addrs,
+    );
+    return resp['address'];
+  }
+
+  async listMultisig(): Promise<string[]> {
+    const resp = await this.kmd.listMultisig(await this.getHandle());
+    return resp['addresses'] ?? [];
+  }
+
+  signer: algosdk.TransactionSigner = async (
+    txnGroup: algosdk.Transaction[],
+    indexesToSign: number[],
+  ): Promise<Uint8Array[]> => {
+    const multisigs = await this.listMultisig();
+
+    const signed: Uint8Array[] = [];
+    for (const idx of indexesToSign) {
+      const txn = txnGroup[idx];
+      if (txn === undefined) throw new Error(`no transaction at index ${idx}`);
+
+      const sender = algosdk.encodeAddress(txn.from.publicKey);
+      signed.push(
+        multisigs.includes(sender)
+          ? await this.signMultisig(txn, sender)
+          : new Uint8Array(
+              await this.kmd.signTransaction(
+                await this.getHandle(),
+                this.config.password,
+                txn,
+              ),
+            ),
+      );
+    }
+    return signed;
+  };
+
+  // Gives up the wallet handle, a new one is requested if used again
+  async release(): Promise<void> {
+    if (this.handle === undefined) return;
+    const handle = this.handle;
+    this.handle = undefined;
+    await this.kmd.releaseWalletHandle(handle);
+  }
+
+  // Signs with each key of the multisig held by the wallet, merging the
+  // signatures into one signed transaction
+  private async signMultisig(
+    txn: algosdk.Transaction,
+    addr: string,
+  ): Promise<Uint8Array> {
+    const handle = await this.getHandle();
+    const msig = await this.kmd.exportMultisig(handle, addr);
+    const keys = await this.listAccounts();
+
+    const blobs: Uint8Array[] = [];
+    for (const pk of msig['pks'] as string[]) {
+      const pkBytes = new Uint8Array(Buffer.from(pk, 'base64'));
+      if (!keys.includes(algosdk.encodeAddress(pkBytes))) continue;
+
+      const resp = await this.kmd.signMultisigTransaction(
+        handle,
+        this.config.password,
+        txn,
+        pkBytes,
+        '',
+      );
+      blobs.push(
+        algosdk.encodeObj({
+          msig: algosdk.decodeObj(Buffer.from(resp['multisig'], 'base64')),
+          txn: txn.get_obj_for_encoding(),
+        }),
+      );
+    }
+
+    if (blobs.length === 0)
+      throw new Error(`no keys of multisig ${addr} in wallet`);
+    return blobs.length === 1
+      ? (blobs[0] as Uint8Array)
+      : algosdk.mergeMultisigTransactions(blobs);
+  }
+
+  private async findWallet(): Promise<string | undefined> {
+    if (this.walletId !== undefined) return this.walletId;
+
+    const wallets = await this.kmd.listWallets();
+    for (const wallet of wallets['wallets'] ?? []) {
+      if (wallet['name'] === this.config.wallet) this.walletId = wallet['id'];
+    }
+    return this.walletId;
+  }
+
+  // Returns a wallet handle, renewing or replacing the current one if it
+  // is close to expiring
+  private async getHandle(): Promise<string> {
+    const now = Date.now();
+    if (this.handle !== undefined && now - this.renewedAt < HANDLE_RENEW_MS)
+      return this.handle;
+
+    if (this.handle !== undefined) {
+      try {
+        await this.kmd.renewWalletHandle(this.handle);
+        this.renewedAt = now;
+        return this.handle;
+      } catch (e) {
+        // Expired, get a new one
+        this.handle = undefined;
+      }
+    }
+
+    const walletId = await this.findWallet();
+    if (walletId === undefined)
+      throw Error('No wallet named: ' + this.config.wallet);
+
+    const resp = await this.kmd.initWalletHandle(
+      walletId,
+      this.config.password,
+    );
+    this.handle = resp['wallet_handle_token'] as string;
+    this.renewedAt = now;
+    return this.handle;
+  }
+}
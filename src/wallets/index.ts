@@ -0,0 +1,4 @@
+export { Wallet, WalletEvents, WalletTransaction } from './wallet';
+export { WalletConnectWallet, WalletConnectOptions } from './walletconnect';
+export { MyAlgoWallet } from './myalgo';
+export { MockWallet } from './mock';
@@ -0,0 +1,56 @@
+import algosdk from 'algosdk';
+import { Wallet, WalletTransaction } from './wallet';
+
+// Stands in for a wallet app in tests, signing with keys held in memory.
+// The session is driven by the test with `connect`, `disconnect` and
+// `switchAccounts`
+export class MockWallet extends Wallet {
+  private keys: Map<string, Uint8Array>;
+
+  // Groups the wallet was asked to sign, in order
+  requests: WalletTransaction[][] = [];
+  // Set to have the wallet reject requests, like a user declining them
+  reject = false;
+
+  constructor(accounts: algosdk.Account[]) {
+    super();
+    this.keys = new Map(accounts.map((a) => [a.addr, a.sk]));
+  }
+
+  async connect(): Promise<string[]> {
+    this.setAccounts([...this.keys.keys()]);
+    return this.accounts;
+  }
+
+  async disconnect(): Promise<void> {
+    this.setAccounts([]);
+  }
+
+  // Shares a different set of the accounts, as if changed in the wallet app
+  switchAccounts(addrs: string[]): void {
+    for (const addr of addrs)
+      if (!this.keys.has(addr)) throw new Error(`no key for account: ${addr}`);
+    this.setAccounts(addrs);
+  }
+
+  protected async signWalletTransactions(
+    txns: WalletTransaction[],
+  ): Promise<(Uint8Array | null)[]> {
+    this.requests.push(txns);
+    if (this.reject) throw new Error('request rejected by user');
+
+    return txns.map((wtxn) => {
+      if (wtxn.signers !== undefined && wtxn.signers.length === 0) return null;
+
+      const txn = algosdk.decodeUnsignedTransaction(
+        Buffer.from(wtxn.txn, 'base64'),
+      );
+      const sender = algosdk.encodeAddress(txn.from.publicKey);
+      const sk = this.keys.get(sender);
+      if (sk === undefined || !this.accounts.includes(sender))
+        throw new Error(`account not shared with dapp: ${sender}`);
+
+      return txn.signTxn(sk);
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import MyAlgoConnect from '@randlabs/myalgo-connect';
+import type { Options as MyAlgoOptions } from '@randlabs/myalgo-connect';
+import { Wallet, WalletTransaction } from './wallet';
+
+// Signs with MyAlgo, which opens a popup for each request rather than
+// keeping a session, so disconnecting only forgets the accounts
+export class MyAlgoWallet extends Wallet {
+  myAlgo: MyAlgoConnect;
+
+  constructor(opts?: MyAlgoOptions) {
+    super();
+    this.myAlgo = new MyAlgoConnect(opts);
+  }
+
+  async connect(): Promise<string[]> {
+    const accounts = await this.myAlgo.connect();
+    this.setAccounts(accounts.map((a) => a.address));
+    return this.accounts;
+  }
+
+  async disconnect(): Promise<void> {
+    this.setAccounts([]);
+  }
+
+  protected async signWalletTransactions(
+    txns: WalletTransaction[],
+  ): Promise<(Uint8Array | null)[]> {
+    // MyAlgo signs every transaction passed, so only pass those to sign
+    const toSign = txns.flatMap((wtxn, idx) =>
+      wtxn.signers !== undefined && wtxn.signers.length === 0 ? [] : [idx],
+    );
+
+    const signed = await this.myAlgo.signTransaction(
+      toSign.map((idx) => Buffer.from(txns[idx]?.txn ?? '', 'base64')),
+    );
+
+    const result: (Uint8Array | null)[] = txns.map(() => null);
+    for (const [i, idx] of toSign.entries()) {
+      const stxn = signed[i];
+      if (stxn !== undefined) result[idx] = stxn.blob;
+    }
+    return result;
+  }
+}
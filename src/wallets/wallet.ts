@@ -0,0 +1,111 @@
+import algosdk from 'algosdk';
+
+// ARC-1 transaction passed to a wallet to sign, transactions of the group
+// the wallet should not sign have an empty list of signers
+export interface WalletTransaction {
+  // Base64 encoded msgpack of the unsigned transaction
+  txn: string;
+  signers?: string[];
+  message?: string;
+}
+
+export interface WalletEvents {
+  connect: (accounts: string[]) => void;
+  disconnect: () => void;
+  accountsChanged: (accounts: string[]) => void;
+}
+
+type Listeners = { [E in keyof WalletEvents]: WalletEvents[E][] };
+
+// A wallet app holding the keys of the accounts, reached through a session
+// the user may end or change the accounts of at any time
+export abstract class Wallet {
+  // Accounts shared by the wallet, empty while not connected
+  accounts: string[] = [];
+
+  private listeners: Listeners = {
+    connect: [],
+    disconnect: [],
+    accountsChanged: [],
+  };
+
+  abstract connect(): Promise<string[]>;
+  abstract disconnect(): Promise<void>;
+
+  // Asks the wallet to sign the group, returning the signed transactions
+  // at the same index, or null for those it was not asked to sign
+  protected abstract signWalletTransactions(
+    txns: WalletTransaction[],
+  ): Promise<(Uint8Array | null)[]>;
+
+  isConnected(): boolean {
+    return this.accounts.length > 0;
+  }
+
+  signer: algosdk.TransactionSigner = async (
+    txnGroup: algosdk.Transaction[],
+    indexesToSign: number[],
+  ): Promise<Uint8Array[]> => {
+    if (!this.isConnected()) throw new Error('wallet not connected');
+
+    const txns = txnGroup.map((txn, idx) => {
+      const wtxn: WalletTransaction = {
+        txn: Buffer.from(algosdk.encodeUnsignedTransaction(txn)).toString(
+          'base64',
+        ),
+      };
+      if (!indexesToSign.includes(idx)) wtxn.signers = [];
+      return wtxn;
+    });
+
+    const signed = await this.signWalletTransactions(txns);
+    return indexesToSign.map((idx) => {
+      const stxn = signed[idx];
+      if (stxn === undefined || stxn === null)
+        throw new Error(`wallet did not sign transaction ${idx}`);
+      return stxn;
+    });
+  };
+
+  // Returns the sender and signer to construct an ApplicationClient with,
+  // sending from the account passed or the first account of the wallet
+  clientOptions(addr?: string): {
+    sender: string;
+    signer: algosdk.TransactionSigner;
+  } {
+    const sender = addr !== undefined ? addr : this.accounts[0];
+    if (sender === undefined) throw new Error('wallet not connected');
+    if (!this.accounts.includes(sender))
+      throw new Error(`account not in wallet: ${sender}`);
+    return { sender: sender, signer: this.signer };
+  }
+
+  on<E extends keyof WalletEvents>(event: E, listener: WalletEvents[E]): void {
+    this.listeners[event].push(listener);
+  }
+
+  off<E extends keyof WalletEvents>(event: E, listener: WalletEvents[E]): void {
+    const listeners = this.listeners[event] as WalletEvents[E][];
+    const idx = listeners.indexOf(listener);
+    if (idx >= 0) listeners.splice(idx, 1);
+  }
+
+  // Sets the accounts shared by the wallet, emitting the event for the change
+  protected setAccounts(accounts: string[]): void {
+    const prev = this.accounts;
+    if (
+      prev.length === accounts.length &&
+      prev.every((a, idx) => a === accounts[idx])
+    )
+      return;
+
+    this.accounts = accounts;
+    if (accounts.length === 0) {
+      for (const l of [...this.listeners.disconnect]) l();
+    } else if (prev.length === 0) {
+      for (const l of [...this.listeners.connect]) l(accounts);
+    } else {
+      for (const l of [...this.listeners.accountsChanged]) l(accounts);
+    }
+  }
+}
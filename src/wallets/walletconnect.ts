@@ -0,0 +1,81 @@
+import WalletConnect from '@walletconnect/client';
+import QRCodeModal from 'algorand-walletconnect-qrcode-modal';
+import { formatJsonRpcRequest } from '@json-rpc-tools/utils';
+import { Wallet, WalletTransaction } from './wallet';
+
+const DEFAULT_BRIDGE = 'https://bridge.walletconnect.org';
+
+export type WalletConnectOptions = ConstructorParameters<
+  typeof WalletConnect
+>[0];
+
+// Signs with a mobile wallet through a WalletConnect session, using the
+// `algo_signTxn` request of ARC-25
+export class WalletConnectWallet extends Wallet {
+  connector: WalletConnect;
+
+  constructor(opts: WalletConnectOptions = {}) {
+    super();
+    this.connector = new WalletConnect({
+      bridge: DEFAULT_BRIDGE,
+      qrcodeModal: QRCodeModal,
+      ...opts,
+    });
+
+    // A session stored by a previous page load is picked up by the connector
+    if (this.connector.connected) this.accounts = this.connector.accounts;
+
+    this.connector.on('connect', (err, payload) => {
+      if (err === null) this.setAccounts(payload.params[0].accounts);
+    });
+    this.connector.on('session_update', (err, payload) => {
+      if (err === null) this.setAccounts(payload.params[0].accounts);
+    });
+    this.connector.on('disconnect', () => {
+      this.setAccounts([]);
+    });
+  }
+
+  // Shows the QR code to pair with the wallet, resolving once the user
+  // approves the session
+  async connect(): Promise<string[]> {
+    if (this.connector.connected) {
+      this.setAccounts(this.connector.accounts);
+      return this.accounts;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onConnect = (accounts: string[]): void => {
+        this.off('connect', onConnect);
+        resolve(accounts);
+      };
+      this.on('connect', onConnect);
+      this.connector.createSession().catch((e) => {
+        this.off('connect', onConnect);
+        reject(e);
+      });
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.connector.connected) await this.connector.killSession();
+    this.setAccounts([]);
+  }
+
+  protected async signWalletTransactions(
+    txns: WalletTransaction[],
+  ): Promise<(Uint8Array | null)[]> {
+    const request = formatJsonRpcRequest('algo_signTxn', [txns]);
+    const result: (string | number[] | null)[] =
+      await this.connector.sendCustomRequest(request);
+
+    // Some wallets return the signed transactions as arrays of bytes
+    // rather than base64
+    return result.map((stxn) => {
+      if (stxn === null) return null;
+      return typeof stxn === 'string'
+        ? new Uint8Array(Buffer.from(stxn, 'base64'))
+        : new Uint8Array(stxn);
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import { ApplicationClient } from '../src/application_client';
+import {
+  DryrunTxnResult,
+  PASSED,
+  fakeAlgod,
+  sender,
+  suggestedParams,
+} from './fake_algod';
+
+const APP_ID = 1234;
+
+const method = new algosdk.ABIMethod({
+  name: 'deposit',
+  args: [{ type: 'pay', name: 'payment' }],
+  returns: { type: 'void' },
+});
+
+function payment(): algosdk.Transaction {
+  return algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    from: sender,
+    to: algosdk.getApplicationAddress(APP_ID),
+    amount: 1000,
+    suggestedParams: suggestedParams,
+  });
+}
+
+// Answers with the result passed for the method call, after its payment
+function methodCallResult(result: DryrunTxnResult): algosdk.Algodv2 {
+  return fakeAlgod((txns) => txns.map((_, i) => (i === 1 ? result : PASSED)));
+}
+
+// Issues one inner app call, which issues another app call of its own
+const innerAppCall: DryrunTxnResult = {
+  disassembly: ['itxn_begin', 'int appl', 'itxn_field TypeEnum', 'itxn_submit'],
+  'app-call-trace': [
+    { line: 0, pc: 1, stack: [] },
+    { line: 1, pc: 2, stack: [] },
+    { line: 2, pc: 3, stack: [{ type: 2, bytes: '', uint: 6 }] },
+    { line: 3, pc: 5, stack: [] },
+  ],
+  'budget-consumed': 2500,
+  'budget-added': 2100,
+};
+
+test('autoBudget covers a method with a pay arg', async () => {
+  const client = new ApplicationClient({
+    client: methodCallResult(innerAppCall),
+    sender: sender,
+    appId: APP_ID,
+  });
+
+  for (const arg of [payment(), { amount: 1000 }]) {
+    const atc = await client.addMethodCall(
+      method,
+      { payment: arg },
+      { autoBudget: true },
+    );
+
+    const group = atc.buildGroup().map(({ txn }) => txn);
+    assert.deepStrictEqual(
+      group.map((t) => t.type),
+      ['pay', 'appl', 'appl'],
+    );
+    // One opup call and two inner transactions, counting the nested one
+    assert.strictEqual(group[1]?.fee, algosdk.ALGORAND_MIN_TX_FEE * 4);
+  }
+});
+
+test('autoBudget fails when the opup calls do not fit in the group', async () => {
+  const client = new ApplicationClient({
+    client: methodCallResult({
+      disassembly: [],
+      'budget-consumed': 700 * 20,
+      'budget-added': 700,
+    }),
+    sender: sender,
+    appId: APP_ID,
+  });
+
+  await assert.rejects(
+    client.addMethodCall(method, { payment: payment() }, { autoBudget: true }),
+    /needs 19 opup calls .* only has room for 14/,
+  );
+});
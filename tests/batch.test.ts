@@ -0,0 +1,102 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findAppSpecs, generateClients } from '../src/generate/batch';
+
+const EXAMPLES = path.join(__dirname, '..', 'examples');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beaker-batch-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// Copies the spec of the example, renaming its contract if a name is passed
+function copySpec(example: string, to: string, name?: string): string {
+  const spec = JSON.parse(
+    fs
+      .readFileSync(path.join(EXAMPLES, example, 'application.json'))
+      .toString(),
+  );
+  if (name !== undefined) spec.contract.name = name;
+
+  const specPath = path.join(dir, to);
+  fs.mkdirSync(path.dirname(specPath), { recursive: true });
+  fs.writeFileSync(specPath, JSON.stringify(spec));
+  return specPath;
+}
+
+function outDir(name: string): string {
+  const out = path.join(dir, name);
+  fs.mkdirSync(out, { recursive: true });
+  return out;
+}
+
+const hello = copySpec('hello', 'specs/hello/application.json');
+const struct = copySpec('struct', 'specs/struct/application.json');
+const shop = copySpec('struct', 'specs/shop.json', 'Shop');
+
+test('findAppSpecs matches a file, a directory or a glob pattern', () => {
+  const specs = path.join(dir, 'specs');
+
+  assert.deepStrictEqual(findAppSpecs(hello), [hello]);
+  assert.deepStrictEqual(findAppSpecs(specs), [shop]);
+  assert.deepStrictEqual(findAppSpecs(path.join(specs, '**', '*.json')), [
+    hello,
+    shop,
+    struct,
+  ]);
+  assert.deepStrictEqual(
+    findAppSpecs(path.join(specs, '*', 'app?ication.json')),
+    [hello, struct],
+  );
+  assert.throws(
+    () => findAppSpecs(path.join(specs, '*.yaml')),
+    /No specs match/,
+  );
+});
+
+test('generateClients writes an index exporting shared structs once', async () => {
+  const out = outDir('out');
+  const files = await generateClients([
+    { specs: path.join(dir, 'specs', '**', '*.json'), out: out, local: true },
+  ]);
+
+  assert.deepStrictEqual(
+    files.map((file) => path.relative(out, file.fileName)),
+    [
+      'hellobeaker_client.ts',
+      'shop_client.ts',
+      'structer_client.ts',
+      'index.ts',
+    ],
+  );
+  const index = files[3]?.contents ?? '';
+  assert.match(index, /\.\/structer_client/);
+  assert.strictEqual(index.match(/\bOrder\b/g)?.length, 1);
+});
+
+test('generateClients fails when two clients export the same name', async () => {
+  const other = copySpec('struct', 'other/shop.json', 'Shop');
+  const spec = JSON.parse(fs.readFileSync(other).toString());
+  // Names the fields of the struct differently
+  for (const hint of Object.values(spec.hints) as { structs: object }[])
+    for (const struct of Object.values(hint.structs))
+      struct.elements[0][0] = 'name';
+  fs.writeFileSync(other, JSON.stringify(spec));
+
+  const out = outDir('collisions');
+  await assert.rejects(
+    generateClients([
+      { specs: struct, out: out },
+      { specs: other, out: out },
+    ]),
+    /Order is defined differently by Structer and Shop/,
+  );
+  await assert.rejects(
+    generateClients([
+      { specs: hello, out: out },
+      { specs: hello, out: out },
+    ]),
+    /HelloBeaker is defined differently/,
+  );
+});
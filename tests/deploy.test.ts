@@ -0,0 +1,170 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import {
+  ApplicationClient,
+  DeployAction,
+  OnSchemaBreak,
+  OnUpdate,
+} from '../src/application_client';
+import { deployNote } from '../src/application_client/deploy';
+import { AVMType, Schema } from '../src/generate';
+import { account, fakeAlgod, sender } from './fake_algod';
+
+const NAME = 'Counter';
+const APP_ID = 42;
+
+// TEAL sources, in base64
+const APPROVAL = Buffer.from('#pragma version 6\nint 1').toString('base64');
+const CLEAR = Buffer.from('#pragma version 6\nint 1').toString('base64');
+
+function schema(uints: number): Schema {
+  const declared: Schema['declared'] = {};
+  for (let i = 0; i < uints; i++)
+    declared[`counter${i}`] = {
+      type: AVMType.uint64,
+      key: `counter${i}`,
+      desc: '',
+      static: false,
+    };
+  return { declared: declared, reserved: {} };
+}
+
+interface OnChainApp {
+  approval: string;
+  uints: number;
+}
+
+// Decoding leaves out fields with their zero value, like NoOp
+function onCompletes(txns: algosdk.Transaction[]): number[] {
+  return txns.map(
+    (txn) => txn.appOnComplete ?? algosdk.OnApplicationComplete.NoOpOC,
+  );
+}
+
+// A client deploying to a network where the app, if passed, was created by
+// an earlier deploy. Returns the transactions the deploy sends
+function deployClient(existing?: OnChainApp): {
+  client: ApplicationClient;
+  sent: algosdk.Transaction[];
+} {
+  const sent: algosdk.Transaction[] = [];
+  const algod = Object.assign(
+    fakeAlgod(() => [], undefined, sent),
+    {
+      accountInformation: () => ({
+        do: async () => ({
+          'created-apps':
+            existing === undefined
+              ? []
+              : [
+                  {
+                    id: APP_ID,
+                    params: {
+                      // Programs compile to their own source
+                      'approval-program': existing.approval,
+                      'clear-state-program': CLEAR,
+                      'global-state-schema': { 'num-uint': existing.uints },
+                    },
+                  },
+                ],
+        }),
+      }),
+    },
+  );
+
+  const note = Buffer.from(deployNote(NAME)).toString('base64');
+  const query = {
+    address: () => query,
+    addressRole: () => query,
+    txType: () => query,
+    notePrefix: () => query,
+    nextToken: () => query,
+    do: async () => ({
+      transactions:
+        existing === undefined
+          ? []
+          : [{ note: note, 'created-application-index': APP_ID }],
+    }),
+  };
+  const indexer = { searchForTransactions: () => query };
+
+  const client = new ApplicationClient({
+    client: algod,
+    indexer: indexer as unknown as algosdk.Indexer,
+    signer: algosdk.makeBasicAccountTransactionSigner(account),
+    sender: sender,
+  });
+  client.name = NAME;
+  client.approvalProgram = APPROVAL;
+  client.clearProgram = CLEAR;
+  client.appSchema = schema(1);
+  client.acctSchema = schema(0);
+  return { client, sent };
+}
+
+test('deploy creates the app with the deploy note, whatever note is passed', async () => {
+  const { client, sent } = deployClient();
+  const result = await client.deploy({
+    txParams: { note: new Uint8Array(Buffer.from('mine')) },
+  });
+
+  assert.strictEqual(result.action, DeployAction.Create);
+  assert.strictEqual(result.appId, 1001);
+  assert.deepStrictEqual(sent[0]?.note, deployNote(NAME));
+});
+
+test('deploy does nothing when the app on chain matches', async () => {
+  const { client, sent } = deployClient({ approval: APPROVAL, uints: 1 });
+  const result = await client.deploy({});
+
+  assert.strictEqual(result.action, DeployAction.None);
+  assert.strictEqual(result.appId, APP_ID);
+  assert.strictEqual(sent.length, 0);
+});
+
+test('deploy follows onUpdate when the programs changed', async () => {
+  const changed = {
+    approval: Buffer.from('#pragma version 6\nint 2').toString('base64'),
+    uints: 1,
+  };
+
+  await assert.rejects(
+    deployClient(changed).client.deploy({}),
+    /Programs of app 42 differ/,
+  );
+
+  const update = deployClient(changed);
+  const updated = await update.client.deploy({ onUpdate: OnUpdate.UpdateApp });
+  assert.strictEqual(updated.action, DeployAction.Update);
+  assert.deepStrictEqual(onCompletes(update.sent), [
+    algosdk.OnApplicationComplete.UpdateApplicationOC,
+  ]);
+
+  const replace = deployClient(changed);
+  const replaced = await replace.client.deploy({
+    onUpdate: OnUpdate.ReplaceApp,
+  });
+  assert.strictEqual(replaced.action, DeployAction.Replace);
+  assert.deepStrictEqual(onCompletes(replace.sent), [
+    algosdk.OnApplicationComplete.DeleteApplicationOC,
+    algosdk.OnApplicationComplete.NoOpOC,
+  ]);
+  assert.strictEqual(replace.sent[0]?.appIndex, APP_ID);
+});
+
+test('deploy follows onSchemaBreak when the schema changed', async () => {
+  const changed = { approval: APPROVAL, uints: 2 };
+
+  await assert.rejects(
+    deployClient(changed).client.deploy({ onUpdate: OnUpdate.UpdateApp }),
+    /Schema of app 42 differs/,
+  );
+
+  const replace = deployClient(changed);
+  const replaced = await replace.client.deploy({
+    onSchemaBreak: OnSchemaBreak.ReplaceApp,
+  });
+  assert.strictEqual(replaced.action, DeployAction.Replace);
+  assert.deepStrictEqual(replace.sent[1]?.note, deployNote(NAME));
+});
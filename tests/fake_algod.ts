@@ -0,0 +1,90 @@
+import algosdk from 'algosdk';
+
+export const account = algosdk.generateAccount();
+export const sender = account.addr;
+
+export const suggestedParams: algosdk.SuggestedParams = {
+  fee: 0,
+  firstRound: 1,
+  lastRound: 1001,
+  genesisID: 'test-v1',
+  genesisHash: 'SGO1GKSzyE7IEPItTxCByw9x8FmnrCDexi9/cOUJOiI=',
+};
+
+export interface DryrunTxnResult {
+  disassembly: string[];
+  'app-call-messages'?: string[];
+  'app-call-trace'?: object[];
+  'budget-consumed'?: number;
+  'budget-added'?: number;
+  // Base64 encoded
+  logs?: string[];
+}
+
+// Result of a transaction that passed without using any budget
+export const PASSED: DryrunTxnResult = {
+  disassembly: [],
+  'app-call-messages': ['PASS'],
+  'budget-consumed': 0,
+  'budget-added': 0,
+};
+
+// Stands in for algod, answering each dryrun with the results returned for the
+// transactions of the request. Apps have the approval program passed, in base64.
+// Programs compile to their own source, and transactions sent are confirmed
+// right away and added to `sent`
+export function fakeAlgod(
+  dryrun: (txns: algosdk.Transaction[]) => DryrunTxnResult[],
+  approvalProgram = 'BoEB',
+  sent: algosdk.Transaction[] = [],
+): algosdk.Algodv2 {
+  const request = <T>(result: T): { do: () => Promise<T> } => ({
+    do: async () => result,
+  });
+  const fake = {
+    getTransactionParams: () => request({ ...suggestedParams }),
+    getApplicationByID: (id: number) =>
+      request({
+        id: id,
+        params: {
+          creator: sender,
+          'approval-program': approvalProgram,
+          'clear-state-program': 'BoEB',
+        },
+      }),
+    getAssetByID: (id: number) =>
+      request({ index: id, params: { creator: sender, total: 1000 } }),
+    accountInformation: (address: string) =>
+      request({ address: address, amount: 10_000_000 }),
+    compile: (source: string) => ({
+      sourcemap: () =>
+        request({
+          hash: '',
+          result: Buffer.from(source).toString('base64'),
+          sourcemap: { version: 3, sources: [], names: [], mappings: '' },
+        }),
+    }),
+    sendRawTransaction: (stxns: Uint8Array[]) => {
+      for (const stxn of stxns)
+        sent.push(algosdk.decodeSignedTransaction(stxn).txn);
+      return request({ txId: sent[sent.length - 1]?.txID() });
+    },
+    status: () => request({ 'last-round': 1 }),
+    statusAfterBlock: () => request({ 'last-round': 2 }),
+    // Apps created get ids counting up from 1000
+    pendingTransactionInformation: () =>
+      request({
+        'confirmed-round': 1,
+        'application-index': 1000 + sent.length,
+      }),
+    dryrun: (req: algosdk.modelsv2.DryrunRequest) =>
+      request({
+        txns: dryrun(
+          req.txns.map(({ txn }) =>
+            algosdk.Transaction.from_obj_for_encoding(txn),
+          ),
+        ),
+      }),
+  };
+  return fake as unknown as algosdk.Algodv2;
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as path from 'path';
+import { generateApplicationClient } from '../src/generate';
+import { readAppSpec } from '../src/generate/spec_file';
+import { Target, compileClient } from '../src/generate/targets';
+
+const EXAMPLE = path.join(__dirname, '..', 'examples', 'hello');
+
+test('clients with events taking tuple and array args compile', () => {
+  const spec = readAppSpec(path.join(EXAMPLE, 'application.json'));
+  spec.contract.events = [
+    {
+      name: 'Ordered',
+      args: [
+        { type: '(string,uint64)', name: 'order' },
+        { type: 'uint64[]', name: 'amounts' },
+      ],
+    },
+  ];
+
+  const source = generateApplicationClient(spec, '../../src/');
+  assert.match(source, /\] = \["", BigInt\(0\)\];/);
+  assert.match(source, /amounts: bigint\[\] = \[\];/);
+
+  // Throws if the client does not compile in strict mode
+  compileClient(source, 'hellobeaker_client', EXAMPLE, Target.DTS);
+});
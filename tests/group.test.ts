@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import {
+  ABIResult,
+  ApplicationClient,
+  GroupBuilder,
+  TransactionOverrides,
+} from '../src/application_client';
+import type { GeneratedClient } from '../src/application_client/group';
+import { account, fakeAlgod, sender, suggestedParams } from './fake_algod';
+
+const APP_ID = 1234;
+
+const method = new algosdk.ABIMethod({
+  name: 'hello',
+  args: [],
+  returns: { type: 'void' },
+});
+
+function payment(note: string): algosdk.Transaction {
+  return algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    from: sender,
+    to: sender,
+    amount: 0,
+    note: new Uint8Array(Buffer.from(note)),
+    suggestedParams: suggestedParams,
+  });
+}
+
+// A generated client whose method call adds the number of opup calls passed
+// after it, like a call with autoBudget would
+function helloClient(opups = 0): GeneratedClient {
+  const client = new ApplicationClient({
+    client: fakeAlgod(() => []),
+    sender: sender,
+    signer: algosdk.makeBasicAccountTransactionSigner(account),
+    appId: APP_ID,
+  });
+  client.methods = [method];
+  return Object.assign(client, {
+    compose: {
+      hello: async (
+        _args: never,
+        txParams?: TransactionOverrides,
+        atc = new algosdk.AtomicTransactionComposer(),
+      ): Promise<algosdk.AtomicTransactionComposer> => {
+        await client.addMethodCall(method, {}, txParams, atc);
+        for (let i = 0; i < opups; i++)
+          atc.addTransaction({
+            txn: payment(`opup ${i}`),
+            signer: client.signer as algosdk.TransactionSigner,
+          });
+        return atc;
+      },
+    },
+    results: {
+      hello: (result: algosdk.ABIResult): ABIResult<void> =>
+        new ABIResult<void>(result),
+    },
+  });
+}
+
+function signed(
+  client: ApplicationClient,
+  note: string,
+): algosdk.TransactionWithSigner {
+  return {
+    txn: payment(note),
+    signer: client.signer as algosdk.TransactionSigner,
+  };
+}
+
+test('GroupBuilder call leaves the builder it was called on as it was', async () => {
+  const client = helloClient();
+  const group = new GroupBuilder().addTransaction(client, signed(client, 'a'));
+  const withCall = group.call(client, 'hello', {} as never);
+  group.addTransaction(client, signed(client, 'b'));
+
+  // Building a group assigns the group id to the shared transaction, so only
+  // one of them is built
+  assert.strictEqual((await group.build()).count(), 2);
+  assert.deepStrictEqual(
+    (await withCall.build()).buildGroup().map(({ txn }) => txn.type),
+    ['pay', 'appl'],
+  );
+});
+
+test('GroupBuilder throws when adding more than 16 transactions', () => {
+  const client = helloClient();
+  const group = new GroupBuilder();
+  for (let i = 0; i < 16; i++)
+    group.addTransaction(client, signed(client, `${i}`));
+
+  assert.throws(
+    () => group.addTransaction(client, signed(client, 'full')),
+    /group would have 17 transactions, max is 16/,
+  );
+});
+
+test('GroupBuilder counts the opup calls added by method calls', async () => {
+  const client = helloClient(3);
+  const group = new GroupBuilder().call(client, 'hello', {} as never);
+  for (let i = 0; i < 12; i++)
+    group.addTransaction(client, signed(client, `${i}`));
+  assert.strictEqual((await group.build()).count(), 16);
+
+  group.addTransaction(client, signed(client, 'full'));
+  await assert.rejects(
+    group.build(),
+    /group would have 17 transactions with the opup calls added, max is 16/,
+  );
+});
@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import { ABIEvent, ApplicationClient } from '../src/application_client';
+import { decodeMethodArgs } from '../src/application_client/method_args';
+import { fakeAlgod, sender } from './fake_algod';
+
+const APP_ID = 1234;
+
+const add = new algosdk.ABIMethod({
+  name: 'add',
+  args: [
+    { type: 'uint64', name: 'a' },
+    { type: 'uint64', name: 'b' },
+  ],
+  returns: { type: 'uint64' },
+});
+
+const added = new ABIEvent({
+  name: 'Added',
+  args: [{ type: 'uint64', name: 'sum' }],
+});
+
+function b64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64');
+}
+
+// A call to `add` as returned by the indexer, logging the event and the
+// return value
+function addCall(id: string, a: number, b: number): Record<string, unknown> {
+  const sum = algosdk.encodeUint64(a + b);
+  return {
+    id: id,
+    'confirmed-round': 10,
+    sender: sender,
+    'application-transaction': {
+      'application-id': APP_ID,
+      'application-args': [
+        add.getSelector(),
+        algosdk.encodeUint64(a),
+        algosdk.encodeUint64(b),
+      ].map(b64),
+    },
+    logs: [
+      b64(Buffer.concat([added.getSelector(), sum])),
+      b64(Buffer.concat([Buffer.from('151f7c75', 'hex'), sum])),
+    ],
+  };
+}
+
+// Stands in for the indexer, returning one page per call of the transactions
+// passed and recording the filters of each query
+function fakeIndexer(
+  pages: Record<string, unknown>[][],
+  filters: string[][],
+): algosdk.Indexer {
+  const searchForTransactions = (): object => {
+    const applied: string[] = [];
+    filters.push(applied);
+    const filter = (f: string): object => {
+      applied.push(f);
+      return query;
+    };
+    const query = {
+      applicationID: (id: number) => filter(`app=${id}`),
+      address: (a: string) => filter(`address=${a}`),
+      addressRole: (r: string) => filter(`role=${r}`),
+      minRound: () => query,
+      maxRound: () => query,
+      nextToken: () => query,
+      do: async () => ({
+        transactions: pages[filters.length - 1] ?? [],
+        'next-token': 'next',
+      }),
+    };
+    return query;
+  };
+  return { searchForTransactions } as unknown as algosdk.Indexer;
+}
+
+function historyClient(indexer: algosdk.Indexer): ApplicationClient {
+  const client = new ApplicationClient({
+    client: fakeAlgod(() => []),
+    indexer: indexer,
+    sender: sender,
+    appId: APP_ID,
+  });
+  client.methods = [add];
+  client.events = [added];
+  return client;
+}
+
+test('getCallHistory filters by sender on the indexer', async () => {
+  const filters: string[][] = [];
+  const client = historyClient(
+    fakeIndexer([[addCall('a', 1, 2)], [addCall('b', 3, 4)]], filters),
+  );
+
+  const calls = await client.getCallHistory({ sender: sender });
+  assert.deepStrictEqual(
+    calls.map((c) => [c.txID, c.args, c.returnValue, c.events[0]?.args]),
+    [
+      ['a', { a: BigInt(1), b: BigInt(2) }, BigInt(3), { sum: BigInt(3) }],
+      ['b', { a: BigInt(3), b: BigInt(4) }, BigInt(7), { sum: BigInt(7) }],
+    ],
+  );
+  // Two pages, then an empty one
+  assert.strictEqual(filters.length, 3);
+  assert.deepStrictEqual(filters[0], [
+    `app=${APP_ID}`,
+    `address=${sender}`,
+    'role=sender',
+  ]);
+});
+
+test('getEventHistory stops at the limit', async () => {
+  const filters: string[][] = [];
+  const client = historyClient(
+    fakeIndexer([[addCall('a', 1, 2), addCall('b', 3, 4)]], filters),
+  );
+
+  const events = await client.getEventHistory({ event: 'Added', limit: 1 });
+  assert.deepStrictEqual(
+    events.map((e) => [e.txID, e.round, e.args]),
+    [['a', 10, { sum: BigInt(3) }]],
+  );
+  assert.strictEqual(filters.length, 1);
+});
+
+test('decodeMethodArgs decodes args past the 14th from the last app arg', () => {
+  const count = 17;
+  const method = new algosdk.ABIMethod({
+    name: 'many',
+    args: Array.from({ length: count }, (_, i) => ({
+      type: 'uint64',
+      name: `a${i}`,
+    })),
+    returns: { type: 'void' },
+  });
+
+  const uint64 = algosdk.ABIType.from('uint64');
+  const rest = algosdk.ABIType.from(`(${Array(count - 14).fill('uint64')})`);
+  const appArgs = [
+    method.getSelector(),
+    ...Array.from({ length: 14 }, (_, i) => uint64.encode(i)),
+    rest.encode(Array.from({ length: count - 14 }, (_, i) => 14 + i)),
+  ];
+
+  const args = decodeMethodArgs(method, appArgs, {
+    appId: APP_ID,
+    sender: sender,
+    accounts: [],
+    foreignAssets: [],
+    foreignApps: [],
+  });
+  assert.deepStrictEqual(
+    args,
+    Object.fromEntries(
+      Array.from({ length: count }, (_, i) => [`a${i}`, BigInt(i)]),
+    ),
+  );
+});
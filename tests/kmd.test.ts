@@ -0,0 +1,156 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import { DefaultKMDConfig, KmdSigner } from '../src/sandbox';
+import { suggestedParams } from './fake_algod';
+
+const WALLET_ID = 'wallet-1';
+
+interface FakeKmd {
+  accounts: algosdk.Account[];
+  multisigs: algosdk.MultisigMetadata[];
+  // Handles given out and released, in order
+  handles: string[];
+  released: string[];
+}
+
+// Stands in for KMD, holding the keys of the accounts and multisigs passed in
+// the wallet named in the default config
+function fakeKmd(state: FakeKmd): algosdk.Kmd {
+  const key = (addr: string): Uint8Array => {
+    const acct = state.accounts.find((a) => a.addr === addr);
+    if (acct === undefined) throw new Error(`no key for ${addr}`);
+    return acct.sk;
+  };
+  const msigAddr = (m: algosdk.MultisigMetadata): string =>
+    algosdk.multisigAddress(m);
+
+  return {
+    listWallets: async () => ({
+      wallets: [{ id: WALLET_ID, name: DefaultKMDConfig.wallet }],
+    }),
+    initWalletHandle: async (id: string) => {
+      assert.strictEqual(id, WALLET_ID);
+      const handle = `handle-${state.handles.length}`;
+      state.handles.push(handle);
+      return { wallet_handle_token: handle };
+    },
+    renewWalletHandle: async () => ({}),
+    releaseWalletHandle: async (handle: string) => {
+      state.released.push(handle);
+      return {};
+    },
+    listKeys: async () => ({ addresses: state.accounts.map((a) => a.addr) }),
+    listMultisig: async () => ({ addresses: state.multisigs.map(msigAddr) }),
+    exportMultisig: async (_handle: string, addr: string) => {
+      const msig = state.multisigs.find((m) => msigAddr(m) === addr);
+      if (msig === undefined) throw new Error(`no multisig ${addr}`);
+      return {
+        pks: msig.addrs.map((a) =>
+          Buffer.from(algosdk.decodeAddress(a).publicKey).toString('base64'),
+        ),
+      };
+    },
+    signTransaction: async (
+      _handle: string,
+      _password: string,
+      txn: algosdk.Transaction,
+    ) => txn.signTxn(key(algosdk.encodeAddress(txn.from.publicKey))),
+    signMultisigTransaction: async (
+      _handle: string,
+      _password: string,
+      txn: algosdk.Transaction,
+      pk: Uint8Array,
+    ) => {
+      const msig = state.multisigs.find(
+        (m) => msigAddr(m) === algosdk.encodeAddress(txn.from.publicKey),
+      ) as algosdk.MultisigMetadata;
+      const { blob } = algosdk.signMultisigTransaction(
+        txn,
+        msig,
+        key(algosdk.encodeAddress(pk)),
+      );
+      const signed = algosdk.decodeObj(blob) as { msig: object };
+      return {
+        multisig: Buffer.from(algosdk.encodeObj(signed.msig)).toString(
+          'base64',
+        ),
+      };
+    },
+  } as unknown as algosdk.Kmd;
+}
+
+function newSigner(
+  accounts: algosdk.Account[],
+  multisigs: algosdk.MultisigMetadata[] = [],
+): { signer: KmdSigner; state: FakeKmd } {
+  const state = { accounts, multisigs, handles: [], released: [] };
+  const signer = new KmdSigner();
+  signer.kmd = fakeKmd(state);
+  return { signer, state };
+}
+
+function payment(from: string): algosdk.Transaction {
+  return algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    from: from,
+    to: from,
+    amount: 0,
+    suggestedParams: suggestedParams,
+  });
+}
+
+test('KmdSigner signs with the keys held by the wallet', async () => {
+  const [alice, bob] = [algosdk.generateAccount(), algosdk.generateAccount()];
+  const { signer, state } = newSigner([alice, bob]);
+
+  const group = algosdk.assignGroupID([payment(alice.addr), payment(bob.addr)]);
+  const signed = await signer.signer(group, [0, 1]);
+
+  assert.deepStrictEqual(signed, [
+    group[0]?.signTxn(alice.sk),
+    group[1]?.signTxn(bob.sk),
+  ]);
+  // One handle is used for the whole group
+  assert.deepStrictEqual(state.handles, ['handle-0']);
+
+  await signer.release();
+  await signer.signer([payment(alice.addr)], [0]);
+  assert.deepStrictEqual(state.released, ['handle-0']);
+  assert.deepStrictEqual(state.handles, ['handle-0', 'handle-1']);
+});
+
+test('KmdSigner signs for a multisig with each of its keys in the wallet', async () => {
+  const accounts = [algosdk.generateAccount(), algosdk.generateAccount()];
+  const outside = algosdk.generateAccount();
+  const msig: algosdk.MultisigMetadata = {
+    version: 1,
+    threshold: 2,
+    addrs: [accounts[0]?.addr ?? '', outside.addr, accounts[1]?.addr ?? ''],
+  };
+  const { signer } = newSigner(accounts, [msig]);
+
+  const txn = payment(algosdk.multisigAddress(msig));
+  const [signed] = await signer.signer([txn], [0]);
+
+  const expected = algosdk.mergeMultisigTransactions(
+    accounts.map((a) => algosdk.signMultisigTransaction(txn, msig, a.sk).blob),
+  );
+  assert.deepStrictEqual(signed, expected);
+});
+
+test('KmdSigner fails when the wallet is missing or holds no keys', async () => {
+  const msig: algosdk.MultisigMetadata = {
+    version: 1,
+    threshold: 1,
+    addrs: [algosdk.generateAccount().addr],
+  };
+  const { signer } = newSigner([], [msig]);
+  await assert.rejects(
+    signer.signer([payment(algosdk.multisigAddress(msig))], [0]),
+    /no keys of multisig .* in wallet/,
+  );
+
+  const missing = new KmdSigner({ ...DefaultKMDConfig, wallet: 'missing' });
+  missing.kmd = signer.kmd;
+  await assert.rejects(missing.listAccounts(), /No wallet named: missing/);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import {
+  LogicError,
+  parseLogicError,
+} from '../src/application_client/logic_error';
+
+const TXID = 'TXID7QTXVZ3GVTSXDMHGNLYGVDAFHNXJOV4QXKBCEJQ2MY6WCGWA';
+
+function rejection(msg: string, pc: number): string {
+  return `TransactionPool.Remember: transaction ${TXID}: logic eval error: ${msg}. Details: pc=${pc}, opcodes=pushint 1; assert`;
+}
+
+const program = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+
+// Maps every pc to the line passed
+function sourceMap(line: number): algosdk.SourceMap {
+  return { getLineForPc: () => line } as unknown as algosdk.SourceMap;
+}
+
+test('parseLogicError reads the failing transaction and pc', () => {
+  assert.deepStrictEqual(
+    parseLogicError(rejection('assert failed pc=12', 12)),
+    {
+      txId: TXID,
+      msg: 'assert failed pc=12',
+      pc: 12,
+    },
+  );
+  assert.deepStrictEqual(parseLogicError('not a logic error'), {});
+});
+
+test('parseLogicError reads the errors of inner app calls', () => {
+  const inner =
+    'inner tx 1 failed: logic eval error: inner tx 0 failed: logic eval error: err opcode executed. Details: app=7, pc=3, opcodes=err. Details: app=5, pc=40, opcodes=itxn_submit';
+  const led = parseLogicError(rejection(inner, 90));
+
+  assert.strictEqual(led.pc, 90);
+  assert.deepStrictEqual(led.inner, {
+    index: 1,
+    appId: 5,
+    pc: 40,
+    msg: 'inner tx 0 failed: logic eval error: err opcode executed. Details: app=7, pc=3, opcodes=err',
+    inner: { index: 0, appId: 7, pc: 3, msg: 'err opcode executed' },
+  });
+
+  const e = new LogicError(led, program);
+  assert.strictEqual(
+    e.message,
+    'err opcode executed in inner transaction 0 (app 7) of inner transaction 1 (app 5)',
+  );
+});
+
+test('LogicError describes the method, source and trace of the failure', () => {
+  const method = new algosdk.ABIMethod({
+    name: 'transfer',
+    args: [
+      { type: 'uint64', name: 'amount' },
+      { type: 'byte[]', name: 'memo' },
+    ],
+    returns: { type: 'void' },
+  });
+  const e = new LogicError(
+    parseLogicError(rejection('assert failed', 12)),
+    program,
+    sourceMap(10),
+    {
+      txnIndex: 1,
+      method: method,
+      methodArgs: { amount: BigInt(5), memo: new Uint8Array([0xab]) },
+      trace: { trace: '', stack: ['1', '0'], scratch: ['3 = 0x01'] },
+    },
+    2,
+  );
+
+  assert.strictEqual(
+    e.message,
+    'assert failed in transaction 1 (transfer) at line 11',
+  );
+  assert.strictEqual(
+    e.stack,
+    [
+      `LogicError: ${e.message}`,
+      'method: transfer(amount=5, memo=0xab)',
+      'line 8\nline 9\nline 10 <--- Error\nline 11',
+      'stack: [1, 0]',
+      'scratch: 3 = 0x01',
+    ].join('\n\n'),
+  );
+});
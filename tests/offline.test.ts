@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import { ApplicationClient } from '../src/application_client';
+import {
+  ExportedGroup,
+  encodeExportedGroup,
+  exportedTransaction,
+  validateSignedGroup,
+} from '../src/application_client/offline';
+import { account, fakeAlgod, sender, suggestedParams } from './fake_algod';
+
+function payment(amount: number): algosdk.Transaction {
+  return algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    from: sender,
+    to: sender,
+    amount: amount,
+    suggestedParams: suggestedParams,
+  });
+}
+
+function exportedGroup(): {
+  group: ExportedGroup;
+  txns: algosdk.Transaction[];
+} {
+  const txns = algosdk.assignGroupID([payment(1), payment(2)]);
+  return { group: { txns: txns.map(exportedTransaction) }, txns: txns };
+}
+
+test('encodeExportedGroup writes the group as unsigned transactions', () => {
+  const { group, txns } = exportedGroup();
+  const encoded = encodeExportedGroup(group);
+
+  const first = encodeExportedGroup({ txns: group.txns.slice(0, 1) });
+  const stxn = algosdk.decodeSignedTransaction(first);
+  assert.strictEqual(stxn.txn.txID(), txns[0]?.txID());
+  assert.strictEqual(stxn.sig, undefined);
+  assert.strictEqual(
+    encoded.length,
+    txns
+      .map((txn) => algosdk.encodeObj({ txn: txn.get_obj_for_encoding() }))
+      .reduce((len, blob) => len + blob.length, 0),
+  );
+});
+
+test('validateSignedGroup accepts the signed transactions of the group', () => {
+  const { group, txns } = exportedGroup();
+  const signed = txns.map((txn) => txn.signTxn(account.sk));
+
+  // Base64, as ARC-1 wallets return them, or msgpack
+  const blobs = validateSignedGroup(group, [
+    Buffer.from(signed[0] as Uint8Array).toString('base64'),
+    signed[1] as Uint8Array,
+  ]);
+  assert.deepStrictEqual(blobs, signed);
+});
+
+test('validateSignedGroup rejects transactions that do not match the group', () => {
+  const { group, txns } = exportedGroup();
+  const signed = txns.map((txn) => txn.signTxn(account.sk));
+
+  assert.throws(
+    () => validateSignedGroup(group, signed.slice(0, 1)),
+    /expected 2 signed transactions, got 1/,
+  );
+  assert.throws(
+    () =>
+      validateSignedGroup(group, [
+        signed[1] as Uint8Array,
+        signed[0] as Uint8Array,
+      ]),
+    /signed transaction 0 does not match the group/,
+  );
+  assert.throws(
+    () =>
+      validateSignedGroup(group, [
+        signed[0] as Uint8Array,
+        encodeExportedGroup({ txns: group.txns.slice(1) }),
+      ]),
+    /transaction 1 is not signed/,
+  );
+  assert.throws(
+    () =>
+      validateSignedGroup(group, [signed[0] as Uint8Array, 'bm90IG1zZ3BhY2s=']),
+    /transaction 1 is not a signed transaction/,
+  );
+});
+
+test('exportGroup describes method calls and executeSigned submits the group', async () => {
+  const method = new algosdk.ABIMethod({
+    name: 'add',
+    args: [
+      { type: 'uint64', name: 'a' },
+      { type: 'uint64', name: 'b' },
+    ],
+    returns: { type: 'void' },
+  });
+  const sent: algosdk.Transaction[] = [];
+  const client = new ApplicationClient({
+    client: fakeAlgod(() => [], undefined, sent),
+    sender: sender,
+    appId: 1234,
+  });
+  client.methods = [method];
+
+  const atc = await client.addMethodCall(method, { a: 1, b: 2 });
+  const group = client.exportGroup(atc);
+  const [call] = group.txns;
+  assert.strictEqual(call?.method?.name, 'add');
+  assert.deepStrictEqual(call?.args, { a: '1', b: '2' });
+  assert.strictEqual(call?.returns, 'void');
+
+  const txn = algosdk.decodeUnsignedTransaction(
+    Buffer.from(call?.txn ?? '', 'base64'),
+  );
+  const result = await client.executeSigned(group, [txn.signTxn(account.sk)]);
+  assert.deepStrictEqual(result.txIDs, [txn.txID()]);
+  assert.strictEqual(result.methodResults[0]?.method.name, 'add');
+  assert.strictEqual(sent.length, 1);
+});
@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import { ApplicationClient } from '../src/application_client';
+import { PASSED, fakeAlgod, sender, suggestedParams } from './fake_algod';
+
+const APP_ID = 1234;
+// `#pragma version 9; int 1`
+const AVM9_PROGRAM = 'CYEB';
+
+const method = new algosdk.ABIMethod({
+  name: 'deposit',
+  args: [{ type: 'pay', name: 'payment' }],
+  returns: { type: 'void' },
+});
+
+const ASSET_ID = 99;
+const boxName = new Uint8Array(Buffer.from('key'));
+
+function payment(): algosdk.Transaction {
+  return algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    from: sender,
+    to: algosdk.getApplicationAddress(APP_ID),
+    amount: 1000,
+    suggestedParams: suggestedParams,
+  });
+}
+
+function addresses(txn: algosdk.Transaction | undefined): string[] {
+  return (txn?.appAccounts ?? []).map((a) =>
+    algosdk.encodeAddress(a.publicKey),
+  );
+}
+
+// Rejects the method call, after its payment, until some app call in the group
+// lists the asset and each of the accounts, and the method call lists the box
+function needsResources(
+  accounts: string[],
+  approvalProgram?: string,
+): algosdk.Algodv2 {
+  return fakeAlgod((txns) => {
+    const listed = txns.flatMap((txn) => addresses(txn));
+    const assets = txns.flatMap((txn) => txn.appForeignAssets ?? []);
+    const missing = accounts.find((a) => !listed.includes(a));
+
+    let error: string | undefined;
+    if (!assets.includes(ASSET_ID)) error = `unavailable Asset ${ASSET_ID}`;
+    else if (missing !== undefined) error = `unavailable Account ${missing}`;
+    else if ((txns[1]?.boxes ?? []).length === 0) error = 'invalid Box key';
+
+    return txns.map((_, i) =>
+      i === 1 && error !== undefined
+        ? {
+            disassembly: ['int 1'],
+            'app-call-messages': ['REJECT'],
+            'app-call-trace': [{ line: 0, pc: 1, stack: [], error: error }],
+          }
+        : PASSED,
+    );
+  }, approvalProgram);
+}
+
+function newAccounts(count: number): string[] {
+  return Array.from({ length: count }, () => algosdk.generateAccount().addr);
+}
+
+test('populateResources lists resources on the method call before AVM 9', async () => {
+  const accounts = newAccounts(1);
+  const client = new ApplicationClient({
+    client: needsResources(accounts),
+    sender: sender,
+    appId: APP_ID,
+  });
+
+  const atc = await client.addMethodCall(
+    method,
+    { payment: payment() },
+    { populateResources: true },
+  );
+
+  const group = atc.buildGroup().map(({ txn }) => txn);
+  assert.deepStrictEqual(
+    group.map((t) => t.type),
+    ['pay', 'appl'],
+  );
+  assert.deepStrictEqual(group[1]?.appForeignAssets, [ASSET_ID]);
+  assert.deepStrictEqual(addresses(group[1]), accounts);
+  assert.deepStrictEqual(group[1]?.boxes, [
+    { appIndex: APP_ID, name: boxName },
+  ]);
+  assert.strictEqual(group[1]?.fee, algosdk.ALGORAND_MIN_TX_FEE);
+});
+
+test('populateResources lists resources on opup calls once the method call is full', async () => {
+  const accounts = newAccounts(5);
+  const client = new ApplicationClient({
+    client: needsResources(accounts, AVM9_PROGRAM),
+    sender: sender,
+    appId: APP_ID,
+  });
+
+  const atc = await client.addMethodCall(
+    method,
+    { payment: payment() },
+    { populateResources: true },
+  );
+
+  const group = atc.buildGroup().map(({ txn }) => txn);
+  assert.deepStrictEqual(
+    group.map((t) => t.type),
+    ['pay', 'appl', 'appl'],
+  );
+  // The method call holds four accounts at most
+  assert.deepStrictEqual(addresses(group[1]), accounts.slice(0, 4));
+  assert.deepStrictEqual(addresses(group[2]), accounts.slice(4));
+  // The method call pays for the opup call
+  assert.strictEqual(group[1]?.fee, algosdk.ALGORAND_MIN_TX_FEE * 2);
+});
+
+test('populateResources fails when the method call is full before AVM 9', async () => {
+  const accounts = newAccounts(5);
+  const client = new ApplicationClient({
+    client: needsResources(accounts),
+    sender: sender,
+    appId: APP_ID,
+  });
+
+  await assert.rejects(
+    client.addMethodCall(
+      method,
+      { payment: payment() },
+      { populateResources: true },
+    ),
+    new RegExp(`no room on the method call for account:${accounts[4]}`),
+  );
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import {
+  ApplicationClient,
+  LogicSigSigner,
+  MultisigSigner,
+} from '../src/application_client';
+import { fakeAlgod, sender, suggestedParams } from './fake_algod';
+
+const [alice, bob, carol] = [
+  algosdk.generateAccount(),
+  algosdk.generateAccount(),
+  algosdk.generateAccount(),
+];
+const params: algosdk.MultisigMetadata = {
+  version: 1,
+  threshold: 2,
+  addrs: [alice.addr, bob.addr, carol.addr],
+};
+
+// `#pragma version 6; int 1`
+const PROGRAM = new Uint8Array([6, 129, 1]);
+
+function payment(from: string): algosdk.Transaction {
+  return algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    from: from,
+    to: from,
+    amount: 0,
+    suggestedParams: suggestedParams,
+  });
+}
+
+function signatures(blob: Uint8Array | undefined): number {
+  return (
+    algosdk
+      .decodeSignedTransaction(blob as Uint8Array)
+      .msig?.subsig.filter((s) => s.s !== undefined).length ?? 0
+  );
+}
+
+test('MultisigSigner signs once the threshold is met', async () => {
+  const txn = payment(algosdk.multisigAddress(params));
+
+  const one = new MultisigSigner(params, [alice.sk]);
+  await assert.rejects(
+    one.signer([txn], [0]),
+    /has 1 of 2 signatures for transaction 0/,
+  );
+
+  const both = new MultisigSigner(params, [alice.sk, bob.sk]);
+  const [signed] = await both.signer([txn], [0]);
+  assert.strictEqual(signatures(signed), 2);
+});
+
+test('MultisigSigner merges the signatures of other sessions', async () => {
+  const txn = payment(algosdk.multisigAddress(params));
+
+  const other = new MultisigSigner(params, [carol.sk]);
+  const partials = other.signPartial([txn]);
+  assert.strictEqual(signatures(partials[0]), 1);
+
+  const session = new MultisigSigner(params, [alice.sk]);
+  session.addPartials(partials);
+  const [signed] = await session.signer([txn], [0]);
+  assert.strictEqual(signatures(signed), 2);
+
+  assert.throws(
+    () => session.addSubsigner(algosdk.generateAccount().sk),
+    /not a subsigner of multisig/,
+  );
+  assert.throws(
+    () => new MultisigSigner(params).signPartial([txn]),
+    /no signatures for transaction/,
+  );
+});
+
+test('LogicSigSigner signs as the program or the account delegating to it', async () => {
+  const escrow = new LogicSigSigner(new algosdk.LogicSigAccount(PROGRAM));
+  const [fromEscrow] = await escrow.signer([payment(escrow.address)], [0]);
+  assert.ok(
+    algosdk.decodeSignedTransaction(fromEscrow as Uint8Array).lsig !==
+      undefined,
+  );
+
+  const delegated = new LogicSigSigner(new algosdk.LogicSigAccount(PROGRAM));
+  delegated.delegate(alice.sk);
+  assert.strictEqual(delegated.address, alice.addr);
+  const [fromAlice] = await delegated.signer([payment(alice.addr)], [0]);
+  const stxn = algosdk.decodeSignedTransaction(fromAlice as Uint8Array);
+  assert.strictEqual(
+    algosdk.encodeAddress(stxn.txn.from.publicKey),
+    alice.addr,
+  );
+  assert.ok(stxn.lsig?.sig !== undefined);
+});
+
+test('transaction args are signed by the signer passed for the arg', async () => {
+  const method = new algosdk.ABIMethod({
+    name: 'deposit',
+    args: [{ type: 'pay', name: 'payment' }],
+    returns: { type: 'void' },
+  });
+  const clientSigner = algosdk.makeBasicAccountTransactionSigner(carol);
+  const argSigner = new MultisigSigner(params, [alice.sk, bob.sk]).signer;
+  const client = new ApplicationClient({
+    client: fakeAlgod(() => []),
+    sender: sender,
+    signer: clientSigner,
+    appId: 1234,
+  });
+
+  const atc = await client.addMethodCall(
+    method,
+    { payment: payment(algosdk.multisigAddress(params)) },
+    { signers: { payment: argSigner } },
+  );
+
+  assert.deepStrictEqual(
+    atc.buildGroup().map(({ signer }) => signer),
+    [argSigner, clientSigner],
+  );
+});
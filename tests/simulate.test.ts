@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import {
+  ABIEvent,
+  ApplicationClient,
+  SimulateResult,
+} from '../src/application_client';
+import { PASSED, fakeAlgod, sender } from './fake_algod';
+
+const method = new algosdk.ABIMethod({
+  name: 'bump',
+  args: [],
+  returns: { type: 'void' },
+});
+
+const bumped = new ABIEvent({
+  name: 'Bumped',
+  args: [{ type: 'uint64', name: 'count' }],
+});
+
+test('simulated results decode the events logged by the call', async () => {
+  const log = Buffer.concat([
+    Buffer.from(bumped.getSelector()),
+    Buffer.from(algosdk.encodeUint64(3)),
+  ]);
+  const client = new ApplicationClient({
+    client: fakeAlgod(() => [{ ...PASSED, logs: [log.toString('base64')] }]),
+    sender: sender,
+    appId: 1234,
+  });
+  client.methods = [method];
+  client.events = [bumped];
+
+  const atc = await client.addMethodCall(method, {});
+  const result = new SimulateResult<void>(
+    await client.dryrun(atc),
+    undefined,
+    client,
+  );
+
+  assert.deepStrictEqual(
+    result.events.map((e) => [e.name, e.args]),
+    [['Bumped', { count: BigInt(3) }]],
+  );
+});
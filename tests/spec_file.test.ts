@@ -0,0 +1,117 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SPEC_PART_FILES,
+  mergeAppSpec,
+  readAppSpec,
+  readAppSpecParts,
+  splitAppSpec,
+  writeAppSpecNetworks,
+  writeAppSpecParts,
+} from '../src/generate/spec_file';
+
+const GENESIS = 'SGO1GKSzyE7IEPItTxCByw9x8FmnrCDexi9/cOUJOiI=';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beaker-spec-'));
+after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+// Makes a new directory for the test to write to, removed once the tests end
+function newDir(): string {
+  return fs.mkdtempSync(path.join(tmpDir, 'test-'));
+}
+
+function writeSpec(contents: string): string {
+  const specPath = path.join(newDir(), 'application.json');
+  fs.writeFileSync(specPath, contents);
+  return specPath;
+}
+
+test('writeAppSpecNetworks only changes the networks of the contract', () => {
+  const specPath = writeSpec(`{
+  "hints": {"hello(string)string": {"read_only": true}},
+  "contract": {
+    "name": "HelloBeaker",
+    "methods": [],
+    "networks": {}
+  },
+  "schema": {}
+}
+`);
+
+  writeAppSpecNetworks(specPath, { [GENESIS]: { appID: 5 } });
+  assert.strictEqual(
+    fs.readFileSync(specPath).toString(),
+    `{
+  "hints": {"hello(string)string": {"read_only": true}},
+  "contract": {
+    "name": "HelloBeaker",
+    "methods": [],
+    "networks": {
+      "${GENESIS}": {
+        "appID": 5
+      }
+    }
+  },
+  "schema": {}
+}
+`,
+  );
+});
+
+test('writeAppSpecNetworks adds networks to a bare contract', () => {
+  const specPath = writeSpec('{"name": "HelloBeaker", "methods": []}');
+
+  writeAppSpecNetworks(specPath, { [GENESIS]: { appID: 5 } });
+  assert.strictEqual(
+    fs.readFileSync(specPath).toString(),
+    `{"name": "HelloBeaker", "methods": [], "networks": {"${GENESIS}":{"appID":5}}}`,
+  );
+});
+
+test('splitAppSpec keeps the networks of the contract in their own part', () => {
+  const spec = readAppSpec(
+    writeSpec(
+      JSON.stringify({
+        hints: {},
+        source: { approval: 'I3ByYWdtYSB2ZXJzaW9uIDg=' },
+        schema: {},
+        contract: {
+          name: 'HelloBeaker',
+          methods: [],
+          networks: { [GENESIS]: { appID: 5 } },
+        },
+      }),
+    ),
+  );
+
+  const { contract, ...parts } = splitAppSpec(spec);
+  assert.deepStrictEqual(parts.networks, { [GENESIS]: { appID: 5 } });
+  assert.ok(!('networks' in contract));
+
+  const bare = readAppSpec(writeSpec(JSON.stringify(contract)));
+  assert.deepStrictEqual(mergeAppSpec(bare, parts), spec);
+});
+
+test('the specs of the examples are merged back from the parts they split into', () => {
+  const examples = path.join(__dirname, '..', 'examples');
+  for (const name of ['amm', 'demo_avm7', 'hello', 'opup', 'struct']) {
+    const spec = readAppSpec(path.join(examples, name, 'application.json'));
+    const dir = newDir();
+    const written = writeAppSpecParts(dir, spec);
+
+    const { contract, ...paths } = Object.fromEntries(
+      Object.entries(SPEC_PART_FILES)
+        .map(([part, file]) => [part, path.join(dir, file)])
+        .filter(([, partPath]) => written.includes(partPath as string)),
+    );
+    const bare = readAppSpec(contract as string);
+    assert.deepStrictEqual(
+      mergeAppSpec(bare, readAppSpecParts(paths)),
+      spec,
+      name,
+    );
+  }
+});
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import {
+  ReservedState,
+  StateValue,
+  decodeSchemaState,
+  decodeState,
+} from '../src/application_client';
+import { AVMType, Schema, Struct } from '../src/generate';
+
+const point: Struct = {
+  name: 'Point',
+  elements: [
+    ['x', 'uint64'],
+    ['y', 'uint64'],
+  ],
+};
+
+function bytesValue(key: string, bytes: Uint8Array): StateValue {
+  return {
+    key: Buffer.from(key).toString('base64'),
+    value: { type: 1, bytes: Buffer.from(bytes).toString('base64'), uint: 0 },
+  };
+}
+
+const encodedPoint = algosdk.ABIType.from('(uint64,uint64)').encode([1, 2]);
+
+test('reserved values are left raw when several reserved fields share a type', () => {
+  const schema: Schema = {
+    declared: {},
+    reserved: {
+      points: { type: AVMType.bytes, desc: '', max_keys: 4, struct: point },
+      names: { type: AVMType.bytes, desc: '', max_keys: 4 },
+    },
+  };
+  const name = new Uint8Array(Buffer.from('beaker'));
+
+  const state = decodeSchemaState(
+    [bytesValue('a', encodedPoint), bytesValue('b', name)],
+    schema,
+  );
+
+  const points = state['points'] as ReservedState<unknown>;
+  assert.deepStrictEqual(points.get('a'), encodedPoint);
+  assert.deepStrictEqual(points.get('b'), name);
+});
+
+test('a single reserved field decodes its values, keeping any that fail raw', () => {
+  const schema: Schema = {
+    declared: {},
+    reserved: {
+      points: { type: AVMType.bytes, desc: '', max_keys: 4, struct: point },
+    },
+  };
+  const short = new Uint8Array([1, 2]);
+
+  const state = decodeSchemaState(
+    [bytesValue('a', encodedPoint), bytesValue('b', short)],
+    schema,
+  );
+
+  const points = state['points'] as ReservedState<unknown>;
+  assert.deepStrictEqual(points.get('a'), { x: BigInt(1), y: BigInt(2) });
+  assert.deepStrictEqual(points.get('b'), short);
+});
+
+test('a declared value that does not decode as its struct is kept raw', () => {
+  const schema: Schema = {
+    declared: {
+      origin: {
+        type: AVMType.bytes,
+        key: 'origin',
+        desc: '',
+        static: false,
+        struct: point,
+      },
+    },
+    reserved: {},
+  };
+  const legacy = new Uint8Array(Buffer.from('legacy'));
+
+  const state = decodeSchemaState([bytesValue('origin', legacy)], schema);
+  assert.deepStrictEqual(state['origin'], legacy);
+
+  const plain = decodeState([bytesValue('origin', legacy)], false, schema);
+  assert.strictEqual(plain['origin'], 'legacy');
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import { ApplicationClient } from '../src/application_client';
+import { fakeAlgod, sender, suggestedParams } from './fake_algod';
+
+const APP_ID = 1234;
+const ASSET_ID = 99;
+
+const method = new algosdk.ABIMethod({
+  name: 'swap',
+  args: [
+    { type: 'pay', name: 'fee' },
+    { type: 'axfer', name: 'xfer' },
+  ],
+  returns: { type: 'void' },
+});
+
+function newClient(): ApplicationClient {
+  return new ApplicationClient({
+    client: fakeAlgod(() => []),
+    sender: sender,
+    appId: APP_ID,
+  });
+}
+
+function receiver(txn: algosdk.Transaction | undefined): string | undefined {
+  return txn?.to === undefined
+    ? undefined
+    : algosdk.encodeAddress(txn.to.publicKey);
+}
+
+test('transaction args passed as descriptors are built by the client', async () => {
+  const client = newClient();
+  const sp = { ...suggestedParams, flatFee: true, fee: 5000 };
+  const note = new Uint8Array(Buffer.from('fee'));
+
+  const atc = await client.addMethodCall(
+    method,
+    {
+      fee: { amount: 1000, note: note },
+      xfer: { amount: BigInt(10), assetIndex: ASSET_ID },
+    },
+    { suggestedParams: sp },
+  );
+
+  const [pay, axfer, call] = atc.buildGroup().map(({ txn }) => txn);
+  assert.strictEqual(pay?.type, 'pay');
+  assert.strictEqual(pay?.amount, 1000);
+  assert.deepStrictEqual(pay?.note, note);
+  assert.strictEqual(axfer?.type, 'axfer');
+  assert.strictEqual(axfer?.assetIndex, ASSET_ID);
+  assert.strictEqual(axfer?.amount, BigInt(10));
+
+  // Sent from the client sender to the app, with the params of the call
+  for (const txn of [pay, axfer]) {
+    assert.strictEqual(
+      algosdk.encodeAddress(txn?.from.publicKey ?? new Uint8Array(32)),
+      sender,
+    );
+    assert.strictEqual(receiver(txn), client.appAddress);
+    assert.strictEqual(txn?.fee, 5000);
+  }
+  assert.strictEqual(call?.type, 'appl');
+});
+
+test('transaction args are sent to the receiver passed or hinted', async () => {
+  const client = newClient();
+  const hinted = algosdk.generateAccount().addr;
+  const passed = algosdk.generateAccount().addr;
+  client.receivers = { swap: { xfer: hinted } };
+
+  const atc = await client.addMethodCall(method, {
+    fee: { amount: 1000, receiver: passed },
+    xfer: { amount: 10, assetIndex: ASSET_ID },
+  });
+
+  const [pay, axfer] = atc.buildGroup().map(({ txn }) => txn);
+  assert.strictEqual(receiver(pay), passed);
+  assert.strictEqual(receiver(axfer), hinted);
+});
+
+test('transaction args must match the transaction type of the arg', async () => {
+  const client = newClient();
+
+  await assert.rejects(
+    client.addMethodCall(method, {
+      fee: { amount: 1000 },
+      xfer: { amount: 10 },
+    }),
+    /no assetIndex for asset transfer arg: xfer/,
+  );
+  await assert.rejects(
+    client.addMethodCall(method, {
+      fee: { amount: 1000, assetIndex: ASSET_ID },
+      xfer: { amount: 10, assetIndex: ASSET_ID },
+    }),
+    /assetIndex passed for payment arg: fee/,
+  );
+});
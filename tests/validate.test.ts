@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatSpecErrors, validateAppSpec } from '../src/generate/validate';
+
+const EXAMPLES = path.join(__dirname, '..', 'examples');
+
+// Reads the spec of the example as plain JSON, to be broken by the test
+function exampleSpec(name: string): any {
+  return JSON.parse(
+    fs.readFileSync(path.join(EXAMPLES, name, 'application.json')).toString(),
+  );
+}
+
+test('validateAppSpec accepts the specs of the examples', () => {
+  for (const name of ['amm', 'demo_avm7', 'hello', 'opup', 'struct'])
+    assert.deepStrictEqual(validateAppSpec(exampleSpec(name)), [], name);
+});
+
+test('validateAppSpec reports every problem at its path', () => {
+  const spec = exampleSpec('struct');
+  spec.contract.methods[0].args[0].type = 'uint7';
+  spec.source.clear = 'not base64!';
+  spec.schema.global.declared['bad key'] = { type: 'string', key: 'k' };
+  spec.hints.place_order.structs.order.elements.pop();
+  spec.hints.read_item.read_only = 'yes';
+  spec.hints.missing = {};
+
+  const errors = validateAppSpec(spec);
+  assert.deepStrictEqual(
+    errors.map((e) => e.path),
+    [
+      '$.contract.methods[0].args[0].type',
+      '$.source.clear',
+      '$.schema.global.declared["bad key"].type',
+      '$.hints.place_order.structs.order',
+      '$.hints.read_item.read_only',
+      '$.hints.missing',
+    ],
+  );
+  assert.match(
+    formatSpecErrors(errors),
+    /^ {2}\$\.contract\.methods\[0\]\.args\[0\]\.type: invalid ABI type uint7/,
+  );
+  assert.strictEqual(
+    errors[3]?.message,
+    'elements of Order make up (string), not (string,uint16)',
+  );
+  assert.strictEqual(errors[5]?.message, 'no method named missing');
+});
+
+test('validateAppSpec checks default arguments against the spec', () => {
+  const spec = exampleSpec('struct');
+  spec.hints.place_order.default_arguments = {
+    order: { source: 'global-state', data: 'no_such_key' },
+    missing: { source: 'constant', data: 1 },
+  };
+  spec.hints.read_item.default_arguments = {
+    order_number: { source: 'abi-method', data: 'nope' },
+  };
+
+  assert.deepStrictEqual(
+    validateAppSpec(spec).map((e) => `${e.path}: ${e.message}`),
+    [
+      '$.hints.place_order.default_arguments.order.data: no global state value with key no_such_key',
+      '$.hints.place_order.default_arguments.missing: place_order has no arg named missing',
+      '$.hints.read_item.default_arguments.order_number.data: no method named nope',
+    ],
+  );
+  assert.deepStrictEqual(validateAppSpec([]), [
+    { path: '$', message: 'expected an object' },
+  ]);
+});
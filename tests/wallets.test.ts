@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import algosdk from 'algosdk';
+import { MockWallet } from '../src/wallets/mock';
+import { suggestedParams } from './fake_algod';
+
+const alice = algosdk.generateAccount();
+const bob = algosdk.generateAccount();
+
+function payment(from: string): algosdk.Transaction {
+  return algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    from: from,
+    to: from,
+    amount: 0,
+    suggestedParams: suggestedParams,
+  });
+}
+
+test('MockWallet signs the transactions it is asked to', async () => {
+  const wallet = new MockWallet([alice, bob]);
+  await assert.rejects(
+    wallet.signer([payment(alice.addr)], [0]),
+    /wallet not connected/,
+  );
+
+  await wallet.connect();
+  const group = algosdk.assignGroupID([payment(alice.addr), payment(bob.addr)]);
+  const signed = await wallet.signer(group, [1]);
+
+  assert.strictEqual(signed.length, 1);
+  const stxn = algosdk.decodeSignedTransaction(signed[0] as Uint8Array);
+  assert.strictEqual(algosdk.encodeAddress(stxn.txn.from.publicKey), bob.addr);
+  assert.ok(stxn.sig !== undefined);
+
+  // The wallet is shown the whole group, told not to sign the others
+  assert.deepStrictEqual(
+    wallet.requests[0]?.map((wtxn) => wtxn.signers),
+    [[], undefined],
+  );
+});
+
+test('MockWallet only signs for accounts it shares', async () => {
+  const wallet = new MockWallet([alice, bob]);
+  await wallet.connect();
+  wallet.switchAccounts([alice.addr]);
+
+  await assert.rejects(
+    wallet.signer([payment(bob.addr)], [0]),
+    /account not shared with dapp/,
+  );
+  assert.throws(() => wallet.clientOptions(bob.addr), /account not in wallet/);
+  assert.strictEqual(wallet.clientOptions().sender, alice.addr);
+
+  wallet.reject = true;
+  await assert.rejects(
+    wallet.signer([payment(alice.addr)], [0]),
+    /request rejected by user/,
+  );
+});
+
+test('MockWallet emits the events for changes to the session', async () => {
+  const wallet = new MockWallet([alice, bob]);
+  const events: string[] = [];
+  wallet.on('connect', (accounts) => events.push(`connect ${accounts.length}`));
+  wallet.on('accountsChanged', (accounts) =>
+    events.push(`accountsChanged ${accounts.length}`),
+  );
+  const onDisconnect = (): void => {
+    events.push('disconnect');
+  };
+  wallet.on('disconnect', onDisconnect);
+
+  await wallet.connect();
+  // Sharing the same accounts again is not a change
+  wallet.switchAccounts([alice.addr, bob.addr]);
+  wallet.switchAccounts([bob.addr]);
+  await wallet.disconnect();
+
+  wallet.off('disconnect', onDisconnect);
+  await wallet.connect();
+  await wallet.disconnect();
+
+  assert.deepStrictEqual(events, [
+    'connect 2',
+    'accountsChanged 1',
+    'disconnect',
+    'connect 2',
+  ]);
+  assert.ok(!wallet.isConnected());
+});
@@ -0,0 +1,93 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type algosdk from 'algosdk';
+import { diffAppSpecs, watchClients } from '../src/generate/watch';
+import { readAppSpec } from '../src/generate/spec_file';
+
+const EXAMPLES = path.join(__dirname, '..', 'examples');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beaker-watch-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Waits for the condition to hold, checking every few milliseconds
+async function waitFor(cond: () => boolean, timeout = 5000): Promise<void> {
+  for (let waited = 0; !cond(); waited += 10) {
+    if (waited > timeout) throw new Error('timed out waiting');
+    await sleep(10);
+  }
+}
+
+test('diffAppSpecs lists the methods and structs changed', () => {
+  const specPath = path.join(EXAMPLES, 'struct', 'application.json');
+  const before = readAppSpec(specPath);
+
+  const after = readAppSpec(specPath);
+  const methods = after.contract.methods as algosdk.ABIMethod[];
+  methods.splice(
+    methods.findIndex((m) => m.name === 'read_item'),
+    1,
+  );
+  const increase = methods.find((m) => m.name === 'increase_quantity');
+  if (increase === undefined) throw new Error('no increase_quantity method');
+  increase.args.pop();
+  for (const hint of Object.values(after.hints))
+    for (const struct of Object.values(hint.structs ?? {}))
+      struct.elements = [...struct.elements, ['price', 'uint64']];
+
+  assert.deepStrictEqual(diffAppSpecs(before, before), []);
+  assert.deepStrictEqual(diffAppSpecs(before, after), [
+    '~ method increase_quantity(uint8)(string,uint16) -> increase_quantity()(string,uint16)',
+    '- method read_item(uint8)(string,uint16)',
+    '~ struct Order {item: string, quantity: uint16} -> Order {item: string, quantity: uint16, price: uint64}',
+  ]);
+});
+
+test('watchClients regenerates once for changes made in quick succession', async () => {
+  const specPath = path.join(dir, 'application.json');
+  const out = path.join(dir, 'out');
+  fs.mkdirSync(out);
+  const source = fs
+    .readFileSync(path.join(EXAMPLES, 'hello', 'application.json'))
+    .toString();
+  fs.writeFileSync(specPath, source);
+
+  const lines: string[] = [];
+  const stop = watchClients([{ specs: specPath, out: out }], {
+    interval: 10,
+    debounce: 200,
+    log: (line) => lines.push(line),
+  });
+
+  try {
+    await waitFor(() => lines.some((l) => l.startsWith('Wrote client to')));
+
+    // Renames the method a few times, each write within the debounce
+    for (const name of ['hi', 'hey', 'howdy']) {
+      fs.writeFileSync(
+        specPath,
+        source.replace(/"name": "hello"/, `"name": "${name}"`),
+      );
+      await sleep(50);
+    }
+    await waitFor(() => lines.some((l) => l.startsWith('Changed')));
+    await sleep(300);
+
+    const changed = lines.filter((l) => l.startsWith('Changed'));
+    assert.strictEqual(changed.length, 1);
+    assert.match(changed[0] as string, /- method hello\(string\)string/);
+    assert.match(changed[0] as string, /\+ method howdy\(string\)string/);
+    assert.strictEqual(
+      lines.filter((l) => l.startsWith('Wrote client to')).length,
+      2,
+    );
+  } finally {
+    stop();
+  }
+});